@@ -8,6 +8,16 @@ import { ScheduleModule } from '@nestjs/schedule';
 import { QuoteModule } from './quote/quote.module';
 import { MqttModule } from './mqtt/mqtt.module';
 import { AppMailerModule } from './mailer/mailer.module';
+import { CandleModule } from './candle/candle.module';
+import { MarketIndexModule } from './market-index/market-index.module';
+import { DerivativeModule } from './derivative/derivative.module';
+import { WarrantModule } from './warrant/warrant.module';
+import { ForeignFlowModule } from './foreign-flow/foreign-flow.module';
+import { MarketModule } from './market/market.module';
+import { ScreenerModule } from './screener/screener.module';
+import { SymbolModule } from './symbol/symbol.module';
+import { LeaderModule } from './leader/leader.module';
+import { HealthModule } from './health/health.module';
 
 @Module({
   imports: [
@@ -24,6 +34,16 @@ import { AppMailerModule } from './mailer/mailer.module';
     QuoteModule,
     MqttModule,
     AppMailerModule,
+    CandleModule,
+    MarketIndexModule,
+    DerivativeModule,
+    WarrantModule,
+    ForeignFlowModule,
+    MarketModule,
+    ScreenerModule,
+    SymbolModule,
+    LeaderModule,
+    HealthModule,
   ],
   controllers: [AppController],
   providers: [AppService],
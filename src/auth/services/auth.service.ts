@@ -47,6 +47,18 @@ export class AuthService {
     }
   }
 
+  /** Expiry of the stored DNSE token, read without refreshing it. */
+  async getTokenStatus() {
+    const auth = await this.authModel.findOne().lean();
+    const now = Date.now();
+
+    return {
+      expiresAt: auth?.tokenExpiredAt ? new Date(auth.tokenExpiredAt) : null,
+      expiresInMs: auth?.tokenExpiredAt ? auth.tokenExpiredAt - now : null,
+      isValid: !!auth && isTokenValid(auth.token, auth.tokenExpiredAt, now),
+    };
+  }
+
   private async authenticateAndSaveToken(): Promise<Auth> {
     try {
       const { token, investorId } = await this.authenticate();
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { TradingCalendarService } from './services/trading-calendar.service';
+
+@Module({
+  providers: [TradingCalendarService],
+  exports: [TradingCalendarService],
+})
+export class CalendarModule {}
@@ -0,0 +1,24 @@
+export enum MARKET_PHASE {
+  PRE_OPEN = 'PRE_OPEN',
+  ATO = 'ATO',
+  CONTINUOUS = 'CONTINUOUS',
+  LUNCH_BREAK = 'LUNCH_BREAK',
+  ATC = 'ATC',
+  PUT_THROUGH = 'PUT_THROUGH',
+  CLOSED = 'CLOSED',
+}
+
+/** Phases during which the feed sends data. */
+export const TRADING_PHASES: MARKET_PHASE[] = [
+  MARKET_PHASE.ATO,
+  MARKET_PHASE.CONTINUOUS,
+  MARKET_PHASE.ATC,
+  MARKET_PHASE.PUT_THROUGH,
+];
+
+/** Phases with order matching on the board, the ones candles are built on. */
+export const MATCHING_PHASES: MARKET_PHASE[] = [
+  MARKET_PHASE.ATO,
+  MARKET_PHASE.CONTINUOUS,
+  MARKET_PHASE.ATC,
+];
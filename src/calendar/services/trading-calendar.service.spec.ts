@@ -0,0 +1,143 @@
+import { ConfigService } from '@nestjs/config';
+import { TradingCalendarService } from './trading-calendar.service';
+import { MARKET_PHASE } from '../enums/market-phase.enum';
+import { MARKET } from 'src/quote/enums/market-code.enum';
+
+describe('TradingCalendarService Unit Tests', () => {
+  const create = (config: Record<string, string> = {}) =>
+    new TradingCalendarService({
+      get: (key: string) => config[key],
+    } as unknown as ConfigService);
+
+  const vn = (time: string) => new Date(`${time}+07:00`).getTime();
+
+  let calendar: TradingCalendarService;
+
+  beforeEach(() => {
+    calendar = create();
+  });
+
+  // ============================
+  // 1. Ngày giao dịch: thứ trong tuần theo giờ Việt Nam
+  // ============================
+  it('should use the Vietnamese weekday, not the day of month', () => {
+    // thứ Năm 02/01/2025
+    expect(calendar.isTradingTime(vn('2025-01-02T10:00:00'))).toBe(true);
+    // thứ Bảy 04/01/2025, 23:30 UTC thứ Sáu
+    expect(calendar.isTradingDay(vn('2025-01-04T06:30:00'))).toBe(false);
+    // chủ nhật 05/01/2025 (ngày 5, không phải 0 / 6)
+    expect(calendar.isTradingTime(vn('2025-01-05T10:00:00'))).toBe(false);
+  });
+
+  // ============================
+  // 2. Ngày nghỉ lễ
+  // ============================
+  it('should close on holidays, including MARKET_HOLIDAYS', () => {
+    expect(calendar.isTradingTime(vn('2025-04-30T10:00:00'))).toBe(false);
+    expect(calendar.isTradingTime(vn('2025-01-29T10:00:00'))).toBe(false);
+
+    const withClosure = create({ MARKET_HOLIDAYS: '2025-01-03, 2025-01-06' });
+    expect(withClosure.isTradingDay(vn('2025-01-03T10:00:00'))).toBe(false);
+    expect(withClosure.isTradingDay(vn('2025-01-02T10:00:00'))).toBe(true);
+
+    expect(() => create({ MARKET_HOLIDAYS: '2025-02-30' })).toThrow(
+      'Invalid holiday 2025-02-30',
+    );
+  });
+
+  // ============================
+  // 3. Phiên giao dịch theo từng sàn
+  // ============================
+  it('should resolve the session phase of each market', () => {
+    const phase = (market: string, time: string) =>
+      calendar.getPhase(market, vn(`2025-01-02T${time}`));
+
+    expect(phase(MARKET.MARKET_ID_STO, '08:40:00')).toBe(MARKET_PHASE.PRE_OPEN);
+    expect(phase(MARKET.MARKET_ID_STO, '09:05:00')).toBe(MARKET_PHASE.ATO);
+    expect(phase(MARKET.MARKET_ID_STX, '09:05:00')).toBe(
+      MARKET_PHASE.CONTINUOUS,
+    );
+    expect(phase(MARKET.MARKET_ID_DVX, '08:50:00')).toBe(MARKET_PHASE.ATO);
+    expect(phase(MARKET.MARKET_ID_UPX, '12:00:00')).toBe(
+      MARKET_PHASE.LUNCH_BREAK,
+    );
+    expect(phase(MARKET.MARKET_ID_STO, '14:40:00')).toBe(MARKET_PHASE.ATC);
+    expect(phase(MARKET.MARKET_ID_STO, '14:50:00')).toBe(
+      MARKET_PHASE.PUT_THROUGH,
+    );
+    expect(phase(MARKET.MARKET_ID_STO, '15:00:00')).toBe(MARKET_PHASE.CLOSED);
+  });
+
+  // ============================
+  // 4. Lần chuyển phiên tiếp theo, bỏ qua cuối tuần và Tết
+  // ============================
+  it('should find the next phase change across weekends and holidays', () => {
+    expect(
+      calendar.getNextPhaseChange(
+        MARKET.MARKET_ID_STO,
+        vn('2025-01-02T09:05:00'),
+      ),
+    ).toEqual({
+      phase: MARKET_PHASE.CONTINUOUS,
+      at: new Date('2025-01-02T09:15:00+07:00'),
+    });
+
+    // thứ Sáu trước Tết: mở lại thứ Hai 03/02/2025
+    expect(
+      calendar.getNextPhaseChange(
+        MARKET.MARKET_ID_STO,
+        vn('2025-01-24T16:00:00'),
+      ),
+    ).toEqual({
+      phase: MARKET_PHASE.PRE_OPEN,
+      at: new Date('2025-02-03T08:30:00+07:00'),
+    });
+  });
+
+  // ============================
+  // 5. Lịch kết nối feed
+  // ============================
+  it('should schedule feed opens and closes around the lunch break', () => {
+    expect(calendar.getNextFeedTransition(vn('2025-01-02T07:00:00'))).toEqual({
+      at: new Date('2025-01-02T08:45:00+07:00'),
+      isOpen: true,
+      isDayClose: false,
+    });
+    expect(calendar.getNextFeedTransition(vn('2025-01-02T11:00:00'))).toEqual({
+      at: new Date('2025-01-02T11:30:00+07:00'),
+      isOpen: false,
+      isDayClose: false,
+    });
+    expect(calendar.getNextFeedTransition(vn('2025-01-02T14:55:00'))).toEqual({
+      at: new Date('2025-01-02T15:00:00+07:00'),
+      isOpen: false,
+      isDayClose: true,
+    });
+  });
+
+  // ============================
+  // 6. Cảnh báo khi năm hiện tại chưa có ngày nghỉ
+  // ============================
+  it('should warn when the current year has no holidays', () => {
+    expect(calendar.warnIfNoHolidays(vn('2026-03-02T10:00:00'))).toBe(false);
+    expect(calendar.warnIfNoHolidays(vn('2027-03-02T10:00:00'))).toBe(true);
+    expect(
+      create({ MARKET_HOLIDAYS: '2027-01-01' }).warnIfNoHolidays(
+        vn('2027-03-02T10:00:00'),
+      ),
+    ).toBe(false);
+  });
+
+  // ============================
+  // 7. Ngày giao dịch gần nhất
+  // ============================
+  it('should find the latest trading day at or before a time', () => {
+    expect(calendar.getTradingDayStart(vn('2025-01-02T15:30:00'))).toEqual(
+      new Date('2025-01-02T00:00:00+07:00'),
+    );
+    // Chủ Nhật sau Tết: phiên cuối là thứ Sáu 24/01/2025
+    expect(calendar.getTradingDayStart(vn('2025-02-02T10:00:00'))).toEqual(
+      new Date('2025-01-24T00:00:00+07:00'),
+    );
+  });
+});
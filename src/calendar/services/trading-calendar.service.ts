@@ -0,0 +1,255 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { getVnDayStart, isVnDateString } from 'src/quote/utils/vn-date.util';
+import {
+  MARKET_PHASE,
+  MATCHING_PHASES,
+  TRADING_PHASES,
+} from '../enums/market-phase.enum';
+import {
+  DAY_MS,
+  DEFAULT_HOLIDAYS,
+  DEFAULT_MARKET_SESSIONS,
+  getVnDay,
+  MINUTE_MS,
+  parseClock,
+  SessionPhase,
+  SessionWindow,
+  TradingCalendarConfig,
+} from '../utils/trading-calendar.util';
+
+// longest closure to look across (Tết + weekends)
+const LOOKAHEAD_DAYS = 30;
+
+interface PhaseWindow extends SessionWindow {
+  phase: MARKET_PHASE;
+}
+
+export interface PhaseChange {
+  phase: MARKET_PHASE;
+  at: Date;
+}
+
+export interface FeedTransition {
+  at: Date;
+  // the feed opens (true) or closes (false) at `at`
+  isOpen: boolean;
+  // last close of the trading day
+  isDayClose: boolean;
+}
+
+/**
+ * Trading days and session phases of each market, in Asia/Ho_Chi_Minh.
+ *
+ * - Weekends and holidays are closed. Holidays come from
+ *   TRADING_CALENDAR_FILE (JSON, see TradingCalendarConfig) or the built-in
+ *   list, plus MARKET_HOLIDAYS (comma separated YYYY-MM-DD) for ad-hoc
+ *   closures.
+ * - Phases per market come from TRADING_CALENDAR_FILE or the built-in
+ *   exchange sessions.
+ * - The feed is expected while any market is in a trading phase (ATO,
+ *   continuous, ATC, put-through): that is when MQTT is connected and
+ *   watched.
+ */
+@Injectable()
+export class TradingCalendarService {
+  private readonly logger = new Logger(TradingCalendarService.name);
+
+  private readonly holidays: Set<string>;
+  private readonly markets: Map<string, PhaseWindow[]>;
+  // trading phases of every market merged, lunch break excluded
+  private readonly feedWindows: PhaseWindow[];
+  // matching phases merged, per market and of every market ('')
+  private readonly matchingSessions = new Map<string, SessionWindow[]>();
+
+  constructor(configService: ConfigService) {
+    const file = configService.get<string>('TRADING_CALENDAR_FILE');
+    const config = file
+      ? (JSON.parse(readFileSync(file, 'utf8')) as TradingCalendarConfig)
+      : {};
+
+    const extraHolidays = (configService.get<string>('MARKET_HOLIDAYS') ?? '')
+      .split(',')
+      .map((day) => day.trim())
+      .filter(Boolean);
+    this.holidays = new Set([
+      ...(config.holidays ?? DEFAULT_HOLIDAYS),
+      ...extraHolidays,
+    ]);
+    for (const day of this.holidays)
+      if (!isVnDateString(day)) throw new Error(`Invalid holiday ${day}`);
+
+    this.markets = new Map(
+      Object.entries(config.markets ?? DEFAULT_MARKET_SESSIONS).map(
+        ([market, phases]) => [market, toWindows(market, phases)],
+      ),
+    );
+    this.feedWindows = mergeWindows(
+      [...this.markets.values()]
+        .flat()
+        .filter((w) => TRADING_PHASES.includes(w.phase)),
+    );
+
+    const isMatching = (w: PhaseWindow) => MATCHING_PHASES.includes(w.phase);
+    for (const [market, windows] of this.markets)
+      this.matchingSessions.set(
+        market,
+        mergeWindows(windows.filter(isMatching)),
+      );
+    this.matchingSessions.set(
+      '',
+      mergeWindows([...this.markets.values()].flat().filter(isMatching)),
+    );
+
+    if (file)
+      this.logger.log(
+        `Loaded trading calendar from ${file}: ${this.holidays.size} holidays, ${this.markets.size} markets`,
+      );
+
+    this.warnIfNoHolidays();
+  }
+
+  /**
+   * The built-in holidays only cover the years they were written for:
+   * a year without any is most likely a calendar nobody extended.
+   */
+  warnIfNoHolidays(time: number = Date.now()): boolean {
+    const year = getVnDay(time).date.slice(0, 4);
+    if ([...this.holidays].some((day) => day.startsWith(year))) return false;
+
+    this.logger.warn(
+      `No market holidays configured for ${year}: set TRADING_CALENDAR_FILE or MARKET_HOLIDAYS, until then every weekday is a trading day`,
+    );
+    return true;
+  }
+
+  getMarkets(): string[] {
+    return [...this.markets.keys()];
+  }
+
+  isTradingDay(time: number = Date.now()): boolean {
+    const { date, weekday } = getVnDay(time);
+    return weekday !== 0 && weekday !== 6 && !this.holidays.has(date);
+  }
+
+  /**
+   * Start (00:00 VN) of the latest trading day at or before `time`: today
+   * on a trading day, the last session over a weekend or holiday.
+   */
+  getTradingDayStart(time: number = Date.now()): Date {
+    let day = getVnDayStart(time).getTime();
+    for (let i = 0; i < LOOKAHEAD_DAYS && !this.isTradingDay(day); i++)
+      day -= DAY_MS;
+
+    return new Date(day);
+  }
+
+  /** True while the feed is expected to send data (any market trading). */
+  isTradingTime(time: number = Date.now()): boolean {
+    if (!this.isTradingDay(time)) return false;
+
+    const { minutes } = getVnDay(time);
+    return this.feedWindows.some((w) => minutes >= w.start && minutes < w.end);
+  }
+
+  /**
+   * Order matching sessions of a market (ATO to ATC, lunch break excluded),
+   * those of every market merged when the market is unknown.
+   * Intraday candles are aligned to them.
+   */
+  getMatchingSessions(market?: string): SessionWindow[] {
+    return (
+      this.matchingSessions.get(market ?? '') ?? this.matchingSessions.get('')!
+    );
+  }
+
+  getPhase(market: string, time: number = Date.now()): MARKET_PHASE {
+    const windows = this.markets.get(market);
+    if (!windows || !this.isTradingDay(time)) return MARKET_PHASE.CLOSED;
+
+    const { minutes } = getVnDay(time);
+    return (
+      windows.find((w) => minutes >= w.start && minutes < w.end)?.phase ??
+      MARKET_PHASE.CLOSED
+    );
+  }
+
+  /** Next time the phase of `market` changes, null if none is scheduled. */
+  getNextPhaseChange(
+    market: string,
+    time: number = Date.now(),
+  ): PhaseChange | null {
+    const current = this.getPhase(market, time);
+
+    for (const at of this.boundaries(this.markets.get(market) ?? [], time)) {
+      const phase = this.getPhase(market, at);
+      if (phase !== current) return { phase, at: new Date(at) };
+    }
+
+    return null;
+  }
+
+  /** Next time the feed opens or closes, null if none is scheduled. */
+  getNextFeedTransition(time: number = Date.now()): FeedTransition | null {
+    const isOpen = this.isTradingTime(time);
+    const dayClose = this.feedWindows[this.feedWindows.length - 1]?.end;
+
+    for (const at of this.boundaries(this.feedWindows, time)) {
+      if (this.isTradingTime(at) === isOpen) continue;
+
+      return {
+        at: new Date(at),
+        isOpen: !isOpen,
+        isDayClose: isOpen && getVnDay(at).minutes === dayClose,
+      };
+    }
+
+    return null;
+  }
+
+  /** Start and end instants of the windows on the next trading days. */
+  private *boundaries(windows: PhaseWindow[], from: number) {
+    for (let i = 0; i <= LOOKAHEAD_DAYS; i++) {
+      const day = getVnDay(from + i * DAY_MS);
+      if (!this.isTradingDay(day.start)) continue;
+
+      for (const w of windows)
+        for (const minutes of [w.start, w.end]) {
+          const at = day.start + minutes * MINUTE_MS;
+          if (at > from) yield at;
+        }
+    }
+  }
+}
+
+function toWindows(market: string, phases: SessionPhase[]): PhaseWindow[] {
+  const windows = phases
+    .map((p) => ({
+      phase: p.phase,
+      start: parseClock(p.start),
+      end: parseClock(p.end),
+    }))
+    .sort((a, b) => a.start - b.start);
+
+  windows.forEach((w, i) => {
+    if (!Object.values(MARKET_PHASE).includes(w.phase))
+      throw new Error(`Unknown phase ${w.phase} for ${market}`);
+    if (w.start >= w.end || (i > 0 && w.start < windows[i - 1].end))
+      throw new Error(`Invalid or overlapping sessions for ${market}`);
+  });
+
+  return windows;
+}
+
+function mergeWindows(windows: PhaseWindow[]): PhaseWindow[] {
+  const merged: PhaseWindow[] = [];
+
+  for (const w of [...windows].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && w.start <= last.end) last.end = Math.max(last.end, w.end);
+    else merged.push({ ...w });
+  }
+
+  return merged;
+}
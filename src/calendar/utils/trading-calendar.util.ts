@@ -0,0 +1,131 @@
+import { MARKET } from 'src/quote/enums/market-code.enum';
+import { VN_OFFSET_MS } from 'src/quote/utils/vn-date.util';
+import { MARKET_PHASE } from '../enums/market-phase.enum';
+
+export const MINUTE_MS = 60 * 1000;
+export const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** One phase of a trading day, times are HH:mm in Asia/Ho_Chi_Minh. */
+export interface SessionPhase {
+  phase: MARKET_PHASE;
+  start: string;
+  end: string;
+}
+
+/** Part of a trading day in minutes since midnight, end excluded. */
+export interface SessionWindow {
+  start: number;
+  end: number;
+}
+
+/** Shape of TRADING_CALENDAR_FILE, every key is optional. */
+export interface TradingCalendarConfig {
+  // YYYY-MM-DD days the exchanges are closed
+  holidays?: string[];
+  // phases of a trading day per market, outside of them the market is closed
+  markets?: Record<string, SessionPhase[]>;
+}
+
+/**
+ * Exchange closures announced by HOSE / HNX.
+ * Must be extended every year (TRADING_CALENDAR_FILE or MARKET_HOLIDAYS).
+ */
+export const DEFAULT_HOLIDAYS = [
+  // 2025
+  '2025-01-01',
+  '2025-01-27',
+  '2025-01-28',
+  '2025-01-29',
+  '2025-01-30',
+  '2025-01-31',
+  '2025-04-07',
+  '2025-04-30',
+  '2025-05-01',
+  '2025-05-02',
+  '2025-09-01',
+  '2025-09-02',
+  // 2026
+  '2026-01-01',
+  '2026-02-16',
+  '2026-02-17',
+  '2026-02-18',
+  '2026-02-19',
+  '2026-02-20',
+  '2026-04-27',
+  '2026-04-30',
+  '2026-05-01',
+  '2026-09-01',
+  '2026-09-02',
+];
+
+const lunchBreak: SessionPhase = {
+  phase: MARKET_PHASE.LUNCH_BREAK,
+  start: '11:30',
+  end: '13:00',
+};
+
+export const DEFAULT_MARKET_SESSIONS: Record<string, SessionPhase[]> = {
+  [MARKET.MARKET_ID_STO]: [
+    { phase: MARKET_PHASE.PRE_OPEN, start: '08:30', end: '09:00' },
+    { phase: MARKET_PHASE.ATO, start: '09:00', end: '09:15' },
+    { phase: MARKET_PHASE.CONTINUOUS, start: '09:15', end: '11:30' },
+    lunchBreak,
+    { phase: MARKET_PHASE.CONTINUOUS, start: '13:00', end: '14:30' },
+    { phase: MARKET_PHASE.ATC, start: '14:30', end: '14:45' },
+    { phase: MARKET_PHASE.PUT_THROUGH, start: '14:45', end: '15:00' },
+  ],
+  [MARKET.MARKET_ID_STX]: [
+    { phase: MARKET_PHASE.PRE_OPEN, start: '08:30', end: '09:00' },
+    { phase: MARKET_PHASE.CONTINUOUS, start: '09:00', end: '11:30' },
+    lunchBreak,
+    { phase: MARKET_PHASE.CONTINUOUS, start: '13:00', end: '14:30' },
+    { phase: MARKET_PHASE.ATC, start: '14:30', end: '14:45' },
+    { phase: MARKET_PHASE.PUT_THROUGH, start: '14:45', end: '15:00' },
+  ],
+  [MARKET.MARKET_ID_UPX]: [
+    { phase: MARKET_PHASE.PRE_OPEN, start: '08:30', end: '09:00' },
+    { phase: MARKET_PHASE.CONTINUOUS, start: '09:00', end: '11:30' },
+    lunchBreak,
+    { phase: MARKET_PHASE.CONTINUOUS, start: '13:00', end: '15:00' },
+  ],
+  [MARKET.MARKET_ID_DVX]: [
+    { phase: MARKET_PHASE.PRE_OPEN, start: '08:30', end: '08:45' },
+    { phase: MARKET_PHASE.ATO, start: '08:45', end: '09:00' },
+    { phase: MARKET_PHASE.CONTINUOUS, start: '09:00', end: '11:30' },
+    lunchBreak,
+    { phase: MARKET_PHASE.CONTINUOUS, start: '13:00', end: '14:30' },
+    { phase: MARKET_PHASE.ATC, start: '14:30', end: '14:45' },
+  ],
+};
+
+/** 'HH:mm' → minutes since midnight, throws on anything else. */
+export function parseClock(value: string): number {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  if (!match) throw new Error(`Invalid session time ${value}, expected HH:mm`);
+
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+export interface VnDay {
+  // YYYY-MM-DD
+  date: string;
+  // 0 = Sunday
+  weekday: number;
+  // start of the day as a UTC timestamp
+  start: number;
+  // minutes since the start of the day
+  minutes: number;
+}
+
+/** Calendar day of `time` in Asia/Ho_Chi_Minh (UTC+7, no DST). */
+export function getVnDay(time: number): VnDay {
+  const vn = new Date(time + VN_OFFSET_MS);
+  const start = Math.floor((time + VN_OFFSET_MS) / DAY_MS) * DAY_MS;
+
+  return {
+    date: vn.toISOString().slice(0, 10),
+    weekday: vn.getUTCDay(),
+    start: start - VN_OFFSET_MS,
+    minutes: Math.floor((time + VN_OFFSET_MS - start) / MINUTE_MS),
+  };
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Candle, CandleSchema } from './schemas/candle.schema';
+import { CandleService } from './services/candle.service';
+import { CandleRepository } from './repositories/candle.repository';
+import { CandleController } from './controllers/candle.controller';
+import { LeaderModule } from 'src/leader/leader.module';
+import { CalendarModule } from 'src/calendar/calendar.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: Candle.name, schema: CandleSchema }]),
+    LeaderModule,
+    CalendarModule,
+  ],
+  providers: [CandleService, CandleRepository],
+  exports: [CandleService],
+  controllers: [CandleController],
+})
+export class CandleModule {}
@@ -0,0 +1,30 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { CandleService } from '../services/candle.service';
+import { BarsQueryDto } from '../dto/bars-query.dto';
+
+@ApiTags('candles')
+@Controller()
+export class CandleController {
+  constructor(private readonly candleService: CandleService) {}
+
+  /**
+   * GET /bars?Code=VNM&resolution=5&from=1735783200&to=1735804800
+   * from / to are unix timestamps in seconds (TradingView UDF).
+   */
+  @Get('bars')
+  async getBars(@Query() query: BarsQueryDto) {
+    const to = query.to !== undefined ? new Date(query.to * 1000) : new Date();
+    const from =
+      query.from !== undefined
+        ? new Date(query.from * 1000)
+        : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+
+    return this.candleService.getBars({
+      code: query.Code,
+      resolution: query.resolution,
+      from,
+      to,
+    });
+  }
+}
@@ -0,0 +1,32 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsEnum, IsNumber, IsOptional } from 'class-validator';
+import { StockCodeQueryDto } from 'src/common/dto/stock-code-query.dto';
+import { CANDLE_RESOLUTION } from '../enums/candle-resolution.enum';
+
+export class BarsQueryDto extends StockCodeQueryDto {
+  @ApiPropertyOptional({
+    enum: CANDLE_RESOLUTION,
+    default: CANDLE_RESOLUTION.ONE_MINUTE,
+  })
+  @IsEnum(CANDLE_RESOLUTION)
+  resolution: CANDLE_RESOLUTION = CANDLE_RESOLUTION.ONE_MINUTE;
+
+  @ApiPropertyOptional({
+    description: 'Unix timestamp in seconds, 24h before `to` by default',
+    example: 1735783200,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'from must be a unix timestamp' })
+  from?: number;
+
+  @ApiPropertyOptional({
+    description: 'Unix timestamp in seconds, now by default',
+    example: 1735804800,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'to must be a unix timestamp' })
+  to?: number;
+}
@@ -0,0 +1,18 @@
+/**
+ * Bar resolutions, using TradingView notation (minutes or "1D").
+ */
+export enum CANDLE_RESOLUTION {
+  ONE_MINUTE = '1',
+  FIVE_MINUTES = '5',
+  FIFTEEN_MINUTES = '15',
+  ONE_HOUR = '60',
+  ONE_DAY = '1D',
+}
+
+export const resolutionMinutes: Record<CANDLE_RESOLUTION, number> = {
+  [CANDLE_RESOLUTION.ONE_MINUTE]: 1,
+  [CANDLE_RESOLUTION.FIVE_MINUTES]: 5,
+  [CANDLE_RESOLUTION.FIFTEEN_MINUTES]: 15,
+  [CANDLE_RESOLUTION.ONE_HOUR]: 60,
+  [CANDLE_RESOLUTION.ONE_DAY]: 24 * 60,
+};
@@ -0,0 +1,63 @@
+import { Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Candle } from '../schemas/candle.schema';
+import { CANDLE_RESOLUTION } from '../enums/candle-resolution.enum';
+
+@Injectable()
+export class CandleRepository {
+  constructor(
+    @InjectModel(Candle.name) private readonly model: Model<Candle>,
+  ) {}
+
+  async upsertMany(candles: Candle[]) {
+    if (candles.length === 0) return;
+
+    await this.model.bulkWrite(
+      candles.map((candle) => ({
+        updateOne: {
+          filter: {
+            StockCode: candle.StockCode,
+            Resolution: candle.Resolution,
+            Time: candle.Time,
+          },
+          update: { $set: candle },
+          upsert: true,
+        },
+      })),
+      { ordered: false },
+    );
+  }
+
+  /** Bars of every symbol opened at the given time of each resolution. */
+  async getBarsOpenedAt(
+    buckets: { resolution: CANDLE_RESOLUTION; time: Date }[],
+  ) {
+    if (buckets.length === 0) return [];
+
+    return this.model
+      .find({
+        $or: buckets.map((b) => ({ Resolution: b.resolution, Time: b.time })),
+      })
+      .select({ _id: 0, createdAt: 0, updatedAt: 0 })
+      .lean<Candle[]>();
+  }
+
+  async getBars(query: {
+    code: string;
+    resolution: CANDLE_RESOLUTION;
+    from: Date;
+    to: Date;
+  }) {
+    const { code, resolution, from, to } = query;
+
+    return this.model
+      .find({
+        StockCode: code,
+        Resolution: resolution,
+        Time: { $gte: from, $lte: to },
+      })
+      .sort({ Time: 1 })
+      .lean();
+  }
+}
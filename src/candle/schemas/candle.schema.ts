@@ -0,0 +1,28 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+import { CANDLE_RESOLUTION } from '../enums/candle-resolution.enum';
+
+export type CandleDocument = HydratedDocument<Candle>;
+
+@Schema({ timestamps: true, versionKey: false })
+export class Candle {
+  @Prop({ required: true }) StockCode: string;
+  @Prop({ required: true, enum: CANDLE_RESOLUTION })
+  Resolution: CANDLE_RESOLUTION;
+  // bar open time
+  @Prop({ required: true }) Time: Date;
+  // bar close time, clipped to the end of the trading session
+  @Prop({ required: true }) CloseTime: Date;
+  @Prop() Open: number;
+  @Prop() High: number;
+  @Prop() Low: number;
+  @Prop() Close: number;
+  @Prop() Volume: number;
+  @Prop({ default: false }) Closed: boolean;
+}
+
+export const CandleSchema = SchemaFactory.createForClass(Candle);
+
+CandleSchema.index({ StockCode: 1, Resolution: 1, Time: 1 }, { unique: true });
+// bars open at a given time, reloaded on start (CandleService.rehydrate)
+CandleSchema.index({ Resolution: 1, Time: 1 });
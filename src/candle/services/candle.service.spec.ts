@@ -0,0 +1,237 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CandleService } from './candle.service';
+import { CandleRepository } from '../repositories/candle.repository';
+import { CANDLE_RESOLUTION } from '../enums/candle-resolution.enum';
+import { Candle } from '../schemas/candle.schema';
+import { LeaderElectionService } from 'src/leader/services/leader-election.service';
+import { ConfigService } from '@nestjs/config';
+import { TradingCalendarService } from 'src/calendar/services/trading-calendar.service';
+import { BehaviorSubject } from 'rxjs';
+
+describe('CandleService Unit Tests', () => {
+  let service: CandleService;
+
+  const mockRepo = {
+    upsertMany: jest.fn().mockResolvedValue(undefined),
+    getBars: jest.fn().mockResolvedValue([]),
+    getBarsOpenedAt: jest.fn().mockResolvedValue([]),
+  };
+  const leadership = new BehaviorSubject(false);
+
+  const quote = (time: string, price: number, total: number, qty: number) => ({
+    symbol: 'VNM',
+    marketId: 'MARKET_ID_STO',
+    tradingTime: new Date(time),
+    matchPrice: price,
+    totalVolumeTraded: total,
+    matchQuantity: qty,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CandleService,
+        { provide: CandleRepository, useValue: mockRepo },
+        {
+          provide: LeaderElectionService,
+          useValue: { leadership$: leadership },
+        },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        TradingCalendarService,
+      ],
+    }).compile();
+
+    service = module.get<CandleService>(CandleService);
+  });
+
+  afterEach(() => {
+    leadership.next(false);
+    jest.clearAllMocks();
+  });
+
+  const getBars = (resolution: CANDLE_RESOLUTION) =>
+    service.getBars({
+      code: 'VNM',
+      resolution,
+      from: new Date('2025-01-02T00:00:00+07:00'),
+      to: new Date('2025-01-02T23:59:59+07:00'),
+    });
+
+  // ============================
+  // 1. Gom OHLCV trong cùng một nến
+  // ============================
+  it('should build OHLCV from matchPrice and totalVolumeTraded', async () => {
+    service.onQuote(quote('2025-01-02T09:01:05+07:00', 100, 1000, 1000));
+    service.onQuote(quote('2025-01-02T09:02:00+07:00', 105, 1500, 500));
+    service.onQuote(quote('2025-01-02T09:03:00+07:00', 98, 1700, 200));
+    // tin nhắn gửi lại, không có khớp lệnh mới
+    service.onQuote(quote('2025-01-02T09:03:30+07:00', 98, 1700, 200));
+    service.onQuote(quote('2025-01-02T09:04:59+07:00', 101, 2000, 300));
+
+    const bars = await getBars(CANDLE_RESOLUTION.FIVE_MINUTES);
+
+    expect(bars.s).toBe('ok');
+    expect(bars.t).toEqual([
+      new Date('2025-01-02T09:00:00+07:00').getTime() / 1000,
+    ]);
+    expect(bars.o).toEqual([100]);
+    expect(bars.h).toEqual([105]);
+    expect(bars.l).toEqual([98]);
+    expect(bars.c).toEqual([101]);
+    expect(bars.v).toEqual([2000]);
+  });
+
+  // ============================
+  // 2. Nến 1h đóng lúc nghỉ trưa
+  // ============================
+  it('should clip the 1h bar at the lunch break', async () => {
+    service.onQuote(quote('2025-01-02T11:10:00+07:00', 100, 100, 100));
+    service.onQuote(quote('2025-01-02T13:05:00+07:00', 102, 300, 200));
+
+    const bars = await getBars(CANDLE_RESOLUTION.ONE_HOUR);
+    expect(bars.t).toEqual([
+      new Date('2025-01-02T13:00:00+07:00').getTime() / 1000,
+    ]);
+
+    // nến 11:00 đã được đóng và lưu khi nến 13:00 mở
+    const [[morningBar]] = mockRepo.upsertMany.mock.calls.find(
+      ([candles]: [Candle[]]) =>
+        candles[0].Resolution === CANDLE_RESOLUTION.ONE_HOUR,
+    ) as [Candle[]];
+    expect(morningBar.Time).toEqual(new Date('2025-01-02T11:00:00+07:00'));
+    expect(morningBar.CloseTime).toEqual(new Date('2025-01-02T11:30:00+07:00'));
+    expect(morningBar.Closed).toBe(true);
+  });
+
+  // ============================
+  // 3. Đóng nến khi hết phiên dù không có tin nhắn mới
+  // ============================
+  it('should close bars at the end of the session on flush', async () => {
+    service.onQuote(quote('2025-01-02T14:40:00+07:00', 100, 100, 100));
+
+    await service.flush(new Date('2025-01-02T14:46:00+07:00').getTime());
+
+    const [flushed] = mockRepo.upsertMany.mock.calls[0] as [Candle[]];
+    expect(flushed).toHaveLength(Object.values(CANDLE_RESOLUTION).length);
+    expect(flushed.every((bar) => bar.Closed)).toBe(true);
+  });
+
+  // ============================
+  // 4. Lệnh ATC sau giờ đóng phiên gộp vào nến cuối
+  // ============================
+  it('should fold trades after the session end into the last bar', async () => {
+    service.onQuote(quote('2025-01-02T14:44:00+07:00', 100, 100, 100));
+    service.onQuote(quote('2025-01-02T14:45:02+07:00', 103, 400, 300));
+
+    const bars = await getBars(CANDLE_RESOLUTION.FIFTEEN_MINUTES);
+
+    expect(bars.t).toEqual([
+      new Date('2025-01-02T14:30:00+07:00').getTime() / 1000,
+    ]);
+    expect(bars.c).toEqual([103]);
+    expect(bars.v).toEqual([400]);
+  });
+
+  // ============================
+  // 5. Khởi động lại giữa phiên: nối tiếp nến đang mở
+  // ============================
+  it('should extend the bars persisted before a restart', async () => {
+    mockRepo.getBarsOpenedAt.mockResolvedValueOnce([
+      {
+        StockCode: 'VNM',
+        Resolution: CANDLE_RESOLUTION.FIVE_MINUTES,
+        Time: new Date('2025-01-02T09:00:00+07:00'),
+        CloseTime: new Date('2025-01-02T09:05:00+07:00'),
+        Open: 100,
+        High: 110,
+        Low: 95,
+        Close: 105,
+        Volume: 2000,
+        Closed: false,
+      },
+      {
+        StockCode: 'VNM',
+        Resolution: CANDLE_RESOLUTION.ONE_DAY,
+        Time: new Date('2025-01-02T00:00:00+07:00'),
+        CloseTime: new Date('2025-01-02T14:45:00+07:00'),
+        Open: 100,
+        High: 110,
+        Low: 95,
+        Close: 105,
+        Volume: 2000,
+        Closed: false,
+      },
+    ]);
+    await service.rehydrate(new Date('2025-01-02T09:03:00+07:00').getTime());
+
+    service.onQuote(quote('2025-01-02T09:03:10+07:00', 102, 2300, 300));
+
+    const fiveMinutes = await getBars(CANDLE_RESOLUTION.FIVE_MINUTES);
+    expect(fiveMinutes.o).toEqual([100]);
+    expect(fiveMinutes.h).toEqual([110]);
+    expect(fiveMinutes.l).toEqual([95]);
+    expect(fiveMinutes.c).toEqual([102]);
+    expect(fiveMinutes.v).toEqual([2300]);
+  });
+
+  // ============================
+  // 6. Khối lượng nến ngày = totalVolumeTraded
+  // ============================
+  it('should take the day volume from totalVolumeTraded', async () => {
+    service.onQuote(quote('2025-01-02T09:01:00+07:00', 100, 5000, 100));
+    service.onQuote(quote('2025-01-02T09:02:00+07:00', 101, 5600, 200));
+
+    const day = await getBars(CANDLE_RESOLUTION.ONE_DAY);
+    expect(day.v).toEqual([5600]);
+  });
+
+  // ============================
+  // 7. Phái sinh: nến theo phiên của thị trường (ATO 8:45)
+  // ============================
+  it('should align bars to the sessions of the symbol market', async () => {
+    service.onQuote({
+      ...quote('2025-01-02T08:50:00+07:00', 1300, 10, 10),
+      symbol: 'VN30F2501',
+      marketId: 'MARKET_ID_DVX',
+    });
+
+    const bars = await service.getBars({
+      code: 'VN30F2501',
+      resolution: CANDLE_RESOLUTION.ONE_HOUR,
+      from: new Date('2025-01-02T00:00:00+07:00'),
+      to: new Date('2025-01-02T23:59:59+07:00'),
+    });
+    expect(bars.t).toEqual([
+      new Date('2025-01-02T08:45:00+07:00').getTime() / 1000,
+    ]);
+  });
+
+  // ============================
+  // 8. Mất quyền leader: nến đang mở lấy từ Mongo
+  // ============================
+  it('should serve the stored bars once demoted', async () => {
+    service.onModuleInit();
+    leadership.next(true);
+    service.onQuote(quote('2025-01-02T09:01:05+07:00', 100, 1000, 1000));
+    expect((await getBars(CANDLE_RESOLUTION.FIVE_MINUTES)).c).toEqual([100]);
+
+    mockRepo.getBars.mockResolvedValueOnce([
+      {
+        StockCode: 'VNM',
+        Resolution: CANDLE_RESOLUTION.FIVE_MINUTES,
+        Time: new Date('2025-01-02T09:00:00+07:00'),
+        CloseTime: new Date('2025-01-02T09:05:00+07:00'),
+        Open: 100,
+        High: 103,
+        Low: 100,
+        Close: 103,
+        Volume: 3000,
+        Closed: false,
+      },
+    ]);
+    leadership.next(false);
+
+    expect((await getBars(CANDLE_RESOLUTION.FIVE_MINUTES)).c).toEqual([103]);
+    service.onModuleDestroy();
+  });
+});
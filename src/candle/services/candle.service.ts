@@ -0,0 +1,282 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { filter, Subscription } from 'rxjs';
+import { Interval } from '@nestjs/schedule';
+import { DnseQuote } from 'src/quote/schemas/dnse-quote.schema';
+import { Candle } from '../schemas/candle.schema';
+import { CandleRepository } from '../repositories/candle.repository';
+import { CANDLE_RESOLUTION } from '../enums/candle-resolution.enum';
+import { getCandleBucket } from '../utils/candle-bucket.util';
+import { LeaderElectionService } from 'src/leader/services/leader-election.service';
+import { TradingCalendarService } from 'src/calendar/services/trading-calendar.service';
+import { onLeadershipLost } from 'src/leader/utils/leadership.util';
+import { marketMap } from 'src/quote/map/quote.map';
+
+/** TradingView UDF history response */
+export interface BarsResponse {
+  s: 'ok' | 'no_data';
+  t: number[];
+  o: number[];
+  h: number[];
+  l: number[];
+  c: number[];
+  v: number[];
+}
+
+@Injectable()
+export class CandleService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CandleService.name);
+
+  // bars currently being built, key = `${StockCode}|${Resolution}`
+  private openBars = new Map<string, Candle>();
+
+  // keys of bars changed since the last flush
+  private dirty = new Set<string>();
+
+  // last totalVolumeTraded per symbol, used to derive traded volume
+  private lastTotalVolume = new Map<string, number>();
+
+  // market of each symbol, bars follow its sessions
+  private markets = new Map<string, string>();
+
+  private isFlushing = false;
+  private subscription: Subscription | null = null;
+  private lostSubscription: Subscription | null = null;
+
+  constructor(
+    private readonly candleRepo: CandleRepository,
+    private readonly leaderService: LeaderElectionService,
+    private readonly calendar: TradingCalendarService,
+  ) {}
+
+  onModuleInit() {
+    // only the ingest leader builds bars, it picks up where the previous
+    // leader (or its own previous run) stopped
+    this.subscription = this.leaderService.leadership$
+      .pipe(filter((isLeader) => isLeader))
+      .subscribe(() => void this.rehydrate());
+    // a demoted replica serves the bars the new leader writes
+    this.lostSubscription = onLeadershipLost(this.leaderService, () =>
+      this.resetOpenBars(),
+    );
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+    this.lostSubscription?.unsubscribe();
+  }
+
+  private resetOpenBars() {
+    this.openBars.clear();
+    this.dirty.clear();
+    this.lastTotalVolume.clear();
+  }
+
+  /**
+   * Reload the bars in progress from Mongo, so the next messages extend
+   * them instead of overwriting their open / high / low / volume.
+   * The day bar also gives back the cumulative volume of each symbol.
+   */
+  async rehydrate(now = Date.now()) {
+    try {
+      // bars in progress of every market, markets have their own sessions
+      const buckets = new Map<
+        string,
+        { resolution: CANDLE_RESOLUTION; time: Date }
+      >();
+      for (const market of [undefined, ...this.calendar.getMarkets()])
+        for (const resolution of Object.values(CANDLE_RESOLUTION)) {
+          const time = getCandleBucket(
+            new Date(now),
+            resolution,
+            this.calendar.getMatchingSessions(market),
+          ).start;
+          buckets.set(`${resolution}|${time.getTime()}`, { resolution, time });
+        }
+
+      const bars = await this.candleRepo.getBarsOpenedAt([...buckets.values()]);
+
+      for (const bar of bars) {
+        const key = `${bar.StockCode}|${bar.Resolution}`;
+        const current = this.openBars.get(key);
+        if (current && current.Time.getTime() > bar.Time.getTime()) continue;
+
+        this.openBars.set(key, bar);
+        if (bar.Resolution === CANDLE_RESOLUTION.ONE_DAY)
+          this.lastTotalVolume.set(bar.StockCode, bar.Volume);
+      }
+
+      this.logger.log(`Reloaded ${bars.length} open candles`);
+    } catch (err) {
+      this.logger.error('Failed to reload open candles', err);
+    }
+  }
+
+  /** Feed one quote message into every resolution. */
+  onQuote(data: Partial<DnseQuote>): void {
+    const { symbol, matchPrice, totalVolumeTraded, matchQuantity } = data;
+    if (!symbol || matchPrice === undefined || matchPrice === null) return;
+
+    const volume = this.getTradedVolume(
+      symbol,
+      totalVolumeTraded,
+      matchQuantity,
+    );
+    if (volume === null) return;
+
+    const time = data.tradingTime ? new Date(data.tradingTime) : new Date();
+
+    // partial messages may not carry the market
+    if (data.marketId)
+      this.markets.set(symbol, marketMap[data.marketId] ?? data.marketId);
+    const sessions = this.calendar.getMatchingSessions(
+      this.markets.get(symbol),
+    );
+
+    for (const resolution of Object.values(CANDLE_RESOLUTION)) {
+      const bucket = getCandleBucket(time, resolution, sessions);
+      const key = `${symbol}|${resolution}`;
+      const bar = this.openBars.get(key);
+
+      // late message for a bar that was already replaced
+      if (bar && bar.Time.getTime() > bucket.start.getTime()) continue;
+
+      if (!bar || bar.Time.getTime() < bucket.start.getTime()) {
+        if (bar) bar.Closed = true;
+
+        this.openBars.set(key, {
+          StockCode: symbol,
+          Resolution: resolution,
+          Time: bucket.start,
+          CloseTime: bucket.end,
+          Open: matchPrice,
+          High: matchPrice,
+          Low: matchPrice,
+          Close: matchPrice,
+          Volume: dayVolume(resolution, totalVolumeTraded) ?? volume,
+          Closed: false,
+        });
+
+        // persist the previous bar before the new one replaces it
+        if (bar) void this.candleRepo.upsertMany([bar]).catch(this.logError);
+      } else {
+        bar.High = Math.max(bar.High, matchPrice);
+        bar.Low = Math.min(bar.Low, matchPrice);
+        bar.Close = matchPrice;
+        bar.Volume =
+          dayVolume(resolution, totalVolumeTraded) ?? bar.Volume + volume;
+      }
+
+      this.dirty.add(key);
+    }
+  }
+
+  /**
+   * Persist changed bars every 5 seconds.
+   * Bars whose close time has passed (lunch break, end of session) are
+   * marked closed here even when no further message arrives.
+   */
+  @Interval(5000)
+  async flush(now = Date.now()): Promise<void> {
+    if (this.isFlushing) return;
+    this.isFlushing = true;
+
+    try {
+      for (const [key, bar] of this.openBars.entries()) {
+        if (!bar.Closed && bar.CloseTime.getTime() <= now) {
+          bar.Closed = true;
+          this.dirty.add(key);
+        }
+      }
+
+      const keys = [...this.dirty];
+      this.dirty.clear();
+
+      const bars = keys
+        .map((key) => this.openBars.get(key))
+        .filter((bar): bar is Candle => !!bar)
+        .map((bar) => ({ ...bar }));
+
+      await this.candleRepo.upsertMany(bars);
+    } catch (err) {
+      this.logError(err);
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  async getBars(query: {
+    code: string;
+    resolution: CANDLE_RESOLUTION;
+    from: Date;
+    to: Date;
+  }): Promise<BarsResponse> {
+    const stored = await this.candleRepo.getBars(query);
+
+    // the bar in memory is fresher than the last flushed copy
+    const live = this.openBars.get(`${query.code}|${query.resolution}`);
+    const bars: Candle[] = stored.filter(
+      (bar) => !live || bar.Time.getTime() !== live.Time.getTime(),
+    );
+    if (
+      live &&
+      live.Time.getTime() >= query.from.getTime() &&
+      live.Time.getTime() <= query.to.getTime()
+    )
+      bars.push(live);
+
+    bars.sort((a, b) => a.Time.getTime() - b.Time.getTime());
+
+    return {
+      s: bars.length ? 'ok' : 'no_data',
+      t: bars.map((bar) => Math.floor(bar.Time.getTime() / 1000)),
+      o: bars.map((bar) => bar.Open),
+      h: bars.map((bar) => bar.High),
+      l: bars.map((bar) => bar.Low),
+      c: bars.map((bar) => bar.Close),
+      v: bars.map((bar) => bar.Volume),
+    };
+  }
+
+  /**
+   * Volume traded since the previous message of the symbol, from the
+   * cumulative totalVolumeTraded (falls back to matchQuantity).
+   * Returns null for a re-sent message that carries no new trade.
+   */
+  private getTradedVolume(
+    symbol: string,
+    totalVolumeTraded?: number,
+    matchQuantity?: number,
+  ): number | null {
+    if (totalVolumeTraded === undefined || totalVolumeTraded === null)
+      return matchQuantity ?? 0;
+
+    const previous = this.lastTotalVolume.get(symbol);
+    this.lastTotalVolume.set(symbol, totalVolumeTraded);
+
+    if (previous === undefined) return matchQuantity ?? 0;
+    if (totalVolumeTraded === previous) return null;
+
+    // cumulative volume went down: a new trading day started
+    if (totalVolumeTraded < previous) return matchQuantity ?? totalVolumeTraded;
+
+    return totalVolumeTraded - previous;
+  }
+
+  private logError = (err: unknown) => {
+    this.logger.error('Failed to persist candles', err);
+  };
+}
+
+/** The day bar volume is the cumulative volume of the feed when it has one. */
+function dayVolume(
+  resolution: CANDLE_RESOLUTION,
+  totalVolumeTraded?: number,
+): number | undefined {
+  if (resolution !== CANDLE_RESOLUTION.ONE_DAY) return undefined;
+  return totalVolumeTraded ?? undefined;
+}
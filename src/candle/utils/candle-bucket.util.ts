@@ -0,0 +1,62 @@
+import { SessionWindow } from 'src/calendar/utils/trading-calendar.util';
+import {
+  CANDLE_RESOLUTION,
+  resolutionMinutes,
+} from '../enums/candle-resolution.enum';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Vietnam is UTC+7 all year round
+const VN_OFFSET_MS = 7 * 60 * MINUTE_MS;
+
+export interface CandleBucket {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Find the bar a trade belongs to.
+ * `sessions` are the matching sessions of the symbol's market
+ * (TradingCalendarService.getMatchingSessions), in order.
+ * Intraday bars are aligned to the start of each session and the last bar
+ * of a session is clipped to the session end, so an 1h bar opened at 11:00
+ * closes at the 11:30 lunch break. Trades printed after a session end
+ * (e.g. the ATC match) are folded into that session's last bar.
+ */
+export function getCandleBucket(
+  time: Date,
+  resolution: CANDLE_RESOLUTION,
+  sessions: SessionWindow[],
+): CandleBucket {
+  const vnMs = time.getTime() + VN_OFFSET_MS;
+  const dayStart = Math.floor(vnMs / DAY_MS) * DAY_MS - VN_OFFSET_MS;
+
+  if (resolution === CANDLE_RESOLUTION.ONE_DAY) {
+    const lastSession = sessions[sessions.length - 1];
+    return {
+      start: new Date(dayStart),
+      end: new Date(dayStart + lastSession.end * MINUTE_MS),
+    };
+  }
+
+  const size = resolutionMinutes[resolution];
+  const minutesNow = Math.floor((vnMs % DAY_MS) / MINUTE_MS);
+
+  // session in progress, else the last one already ended, else the first one
+  const session =
+    sessions.find((s) => minutesNow >= s.start && minutesNow < s.end) ??
+    [...sessions].reverse().find((s) => minutesNow >= s.end) ??
+    sessions[0];
+
+  const offset = Math.max(
+    0,
+    Math.min(minutesNow, session.end - 1) - session.start,
+  );
+  const start = session.start + Math.floor(offset / size) * size;
+  const end = Math.min(start + size, session.end);
+
+  return {
+    start: new Date(dayStart + start * MINUTE_MS),
+    end: new Date(dayStart + end * MINUTE_MS),
+  };
+}
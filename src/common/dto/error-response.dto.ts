@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/** Body of every error response, see HttpExceptionFilter. */
+export class ErrorResponseDto {
+  @ApiProperty({ example: 400 })
+  statusCode: number;
+
+  @ApiProperty({ example: 'Bad Request' })
+  error: string;
+
+  @ApiProperty({
+    oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+    example: ['Code is required'],
+  })
+  message: string | string[];
+
+  @ApiProperty({ example: '/stocktradinginfo?Code=' })
+  path: string;
+
+  @ApiProperty({ example: '2025-01-02T02:15:00.000Z' })
+  timestamp: string;
+}
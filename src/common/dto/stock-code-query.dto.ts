@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+import {
+  SYMBOL_CODE_PATTERN,
+  toUpperCase,
+} from '../utils/query-transform.util';
+
+export class StockCodeQueryDto {
+  @ApiProperty({ example: 'FPT' })
+  @Transform(toUpperCase)
+  @Matches(SYMBOL_CODE_PATTERN, { message: 'Code must be a symbol code' })
+  @IsString()
+  // checked first: validators run from the property up
+  @IsNotEmpty({ message: 'Code is required' })
+  Code: string;
+}
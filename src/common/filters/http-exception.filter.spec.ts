@@ -0,0 +1,92 @@
+import {
+  ArgumentsHost,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { HttpExceptionFilter } from './http-exception.filter';
+
+describe('HttpExceptionFilter Unit Tests', () => {
+  const filter = new HttpExceptionFilter();
+
+  const response = {
+    headersSent: false,
+    status: jest.fn().mockReturnThis(),
+    json: jest.fn(),
+    writableEnded: false,
+    end: jest.fn(),
+  };
+
+  const host = {
+    switchToHttp: () => ({
+      getRequest: () => ({ method: 'GET', url: '/stocktradinginfo?Code=XYZ' }),
+      getResponse: () => response,
+    }),
+  } as ArgumentsHost;
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    response.headersSent = false;
+  });
+
+  // ============================
+  // 1. Lỗi HTTP giữ nguyên status và message
+  // ============================
+  it('should wrap HTTP exceptions in the error envelope', () => {
+    filter.catch(new NotFoundException('Symbol XYZ not found'), host);
+
+    expect(response.status).toHaveBeenCalledWith(404);
+    expect(response.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Symbol XYZ not found',
+        path: '/stocktradinginfo?Code=XYZ',
+      }),
+    );
+  });
+
+  // ============================
+  // 2. Lỗi validation trả về danh sách message
+  // ============================
+  it('should keep the list of validation messages', () => {
+    filter.catch(new BadRequestException(['Code is required']), host);
+
+    expect(response.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: ['Code is required'],
+      }),
+    );
+  });
+
+  // ============================
+  // 3. Lỗi không mong muốn không lộ chi tiết
+  // ============================
+  it('should hide unexpected errors behind a 500', () => {
+    jest.spyOn(filter['logger'], 'error').mockImplementation(() => undefined);
+
+    filter.catch(new Error('connection string leaked'), host);
+
+    expect(response.status).toHaveBeenCalledWith(500);
+    expect(response.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: 'Internal Server Error',
+        message: 'Internal server error',
+      }),
+    );
+  });
+
+  // ============================
+  // 4. Stream đã gửi header: đóng response
+  // ============================
+  it('should end a response whose headers were already sent', () => {
+    jest.spyOn(filter['logger'], 'error').mockImplementation(() => undefined);
+    response.headersSent = true;
+
+    filter.catch(new Error('stream broke'), host);
+
+    expect(response.end).toHaveBeenCalled();
+    expect(response.json).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { ErrorResponseDto } from '../dto/error-response.dto';
+
+/**
+ * Turns every exception thrown by an HTTP route into the same JSON
+ * envelope (ErrorResponseDto). Unexpected errors become a 500 without
+ * leaking their message.
+ */
+@Catch()
+export class HttpExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(HttpExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const ctx = host.switchToHttp();
+    const request = ctx.getRequest<Request>();
+    const response = ctx.getResponse<Response>();
+
+    const isHttp = exception instanceof HttpException;
+    const status = isHttp
+      ? exception.getStatus()
+      : HttpStatus.INTERNAL_SERVER_ERROR;
+
+    if (status >= 500)
+      this.logger.error(
+        `${request.method} ${request.url} failed`,
+        exception instanceof Error ? exception.stack : exception,
+      );
+
+    // a stream (SSE) already started: no envelope, just close it
+    if (response.headersSent) {
+      if (!response.writableEnded) response.end();
+      return;
+    }
+
+    const body: ErrorResponseDto = {
+      statusCode: status,
+      error: getErrorName(status, isHttp ? exception : null),
+      message: isHttp ? getMessage(exception) : 'Internal server error',
+      path: request.url,
+      timestamp: new Date().toISOString(),
+    };
+
+    response.status(status).json(body);
+  }
+}
+
+function getErrorName(status: number, exception: HttpException | null) {
+  const body = exception?.getResponse();
+  if (body && typeof body === 'object' && 'error' in body)
+    return String(body.error);
+
+  return (
+    (HttpStatus[status] as string | undefined)
+      ?.split('_')
+      .map((word) => word[0] + word.slice(1).toLowerCase())
+      .join(' ') ?? 'Error'
+  );
+}
+
+function getMessage(exception: HttpException): string | string[] {
+  const body = exception.getResponse();
+  if (typeof body === 'string') return body;
+
+  if (body && typeof body === 'object' && 'message' in body) {
+    const { message } = body;
+    if (Array.isArray(message)) return message.map(String);
+    return String(message);
+  }
+
+  return exception.message;
+}
@@ -0,0 +1,39 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AdminApiKeyGuard } from './admin-api-key.guard';
+
+describe('AdminApiKeyGuard Unit Tests', () => {
+  const create = (apiKey?: string) =>
+    new AdminApiKeyGuard({
+      get: () => apiKey,
+    } as unknown as ConfigService);
+
+  const context = (headers: Record<string, string>) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => ({ headers }) }),
+    }) as ExecutionContext;
+
+  // ============================
+  // 1. Đúng API key
+  // ============================
+  it('should let a request with the admin key through', () => {
+    expect(
+      create('secret').canActivate(context({ 'x-api-key': 'secret' })),
+    ).toBe(true);
+  });
+
+  // ============================
+  // 2. Thiếu / sai key, hoặc chưa cấu hình ADMIN_API_KEY
+  // ============================
+  it('should reject a missing or wrong key, and everything when unset', () => {
+    expect(() => create('secret').canActivate(context({}))).toThrow(
+      UnauthorizedException,
+    );
+    expect(() =>
+      create('secret').canActivate(context({ 'x-api-key': 'secre' })),
+    ).toThrow(UnauthorizedException);
+    expect(() =>
+      create(undefined).canActivate(context({ 'x-api-key': '' })),
+    ).toThrow(UnauthorizedException);
+  });
+});
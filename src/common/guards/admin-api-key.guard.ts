@@ -0,0 +1,38 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+import type { Request } from 'express';
+
+export const ADMIN_API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Admin endpoints (jobs that write data) require the X-Api-Key header to
+ * match ADMIN_API_KEY. Without ADMIN_API_KEY they are closed to everyone.
+ */
+@Injectable()
+export class AdminApiKeyGuard implements CanActivate {
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const expected = this.configService.get<string>('ADMIN_API_KEY');
+    const provided = context.switchToHttp().getRequest<Request>().headers[
+      ADMIN_API_KEY_HEADER
+    ];
+
+    if (!expected || typeof provided !== 'string' || !same(provided, expected))
+      throw new UnauthorizedException('Missing or invalid X-Api-Key');
+
+    return true;
+  }
+}
+
+function same(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
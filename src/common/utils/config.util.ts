@@ -0,0 +1,23 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * A positive integer setting. Unset uses the default; anything else that is
+ * not a positive integer (typo, 0, 2.5) is logged and uses the default too,
+ * a NaN would silently break the timers and limits built on it.
+ */
+export function readPositiveInt(
+  configService: ConfigService,
+  key: string,
+  defaultValue: number,
+  logger: Logger,
+): number {
+  const raw = configService.get<string | number>(key);
+  if (raw === undefined || raw === '') return defaultValue;
+
+  const value = Number(raw);
+  if (Number.isInteger(value) && value > 0) return value;
+
+  logger.warn(`Invalid ${key} "${raw}", using ${defaultValue}`);
+  return defaultValue;
+}
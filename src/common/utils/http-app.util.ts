@@ -0,0 +1,18 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { HttpExceptionFilter } from '../filters/http-exception.filter';
+
+/**
+ * Request validation and the JSON error envelope. Shared by main.ts and the
+ * controller tests so both answer bad requests the same way.
+ */
+export function configureHttpApp(app: INestApplication) {
+  // query / body DTOs are validated and converted (Page=1 → number)
+  app.useGlobalPipes(
+    new ValidationPipe({
+      transform: true,
+      whitelist: true,
+      stopAtFirstError: true,
+    }),
+  );
+  app.useGlobalFilters(new HttpExceptionFilter());
+}
@@ -0,0 +1,20 @@
+import { TransformFnParams } from 'class-transformer';
+
+// symbol codes: HPG, VN30F2501, 41I1F4000, CHPG2401...
+export const SYMBOL_CODE_PATTERN = /^[A-Z0-9]{1,20}$/;
+
+/** ' fpt ' → 'FPT' */
+export function toUpperCase({ value }: TransformFnParams): unknown {
+  return typeof value === 'string' ? value.trim().toUpperCase() : value;
+}
+
+/** 'fpt, VNM' → ['FPT', 'VNM'], for repeated / comma separated query params. */
+export function toUpperCaseList({ value }: TransformFnParams): unknown {
+  const items: unknown[] = Array.isArray(value) ? value : [value];
+  if (!items.every((item) => typeof item === 'string')) return value;
+
+  return items
+    .flatMap((item) => item.split(','))
+    .map((item) => item.trim().toUpperCase())
+    .filter(Boolean);
+}
@@ -0,0 +1,19 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { DerivativeService } from '../services/derivative.service';
+import { DerivativesQueryDto } from '../dto/derivatives-query.dto';
+
+@ApiTags('derivatives')
+@Controller()
+export class DerivativeController {
+  constructor(private readonly derivativeService: DerivativeService) {}
+
+  /**
+   * GET /derivatives?Code=VN30F2501,VN30F2502
+   * Every futures contract when Code is omitted.
+   */
+  @Get('derivatives')
+  async getFutures(@Query() { Code }: DerivativesQueryDto) {
+    return this.derivativeService.getFutures(Code);
+  }
+}
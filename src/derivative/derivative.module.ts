@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { LeaderModule } from 'src/leader/leader.module';
+import { MarketIndexModule } from 'src/market-index/market-index.module';
+import {
+  FuturesQuote,
+  FuturesQuoteSchema,
+} from './schemas/futures-quote.schema';
+import { DerivativeService } from './services/derivative.service';
+import { FuturesQuoteRepository } from './repositories/futures-quote.repository';
+import { DerivativeController } from './controllers/derivative.controller';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: FuturesQuote.name, schema: FuturesQuoteSchema },
+    ]),
+    LeaderModule,
+    MarketIndexModule,
+  ],
+  providers: [DerivativeService, FuturesQuoteRepository],
+  exports: [DerivativeService],
+  controllers: [DerivativeController],
+})
+export class DerivativeModule {}
@@ -0,0 +1,23 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsArray, IsOptional, Matches } from 'class-validator';
+import {
+  SYMBOL_CODE_PATTERN,
+  toUpperCaseList,
+} from 'src/common/utils/query-transform.util';
+
+export class DerivativesQueryDto {
+  @ApiPropertyOptional({
+    type: String,
+    description: 'Comma separated contract codes, every contract by default',
+    example: 'VN30F2501,VN30F2502',
+  })
+  @IsOptional()
+  @Transform(toUpperCaseList)
+  @IsArray()
+  @Matches(SYMBOL_CODE_PATTERN, {
+    each: true,
+    message: 'Code must contain contract codes',
+  })
+  Code?: string[];
+}
@@ -0,0 +1,28 @@
+import { Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FuturesQuote } from '../schemas/futures-quote.schema';
+
+@Injectable()
+export class FuturesQuoteRepository {
+  constructor(
+    @InjectModel(FuturesQuote.name)
+    private readonly model: Model<FuturesQuote>,
+  ) {}
+
+  async upsert(quote: FuturesQuote) {
+    return this.model.updateOne(
+      { StockCode: quote.StockCode },
+      { $set: quote },
+      { upsert: true },
+    );
+  }
+
+  async getByStockCodes(codes?: string[]) {
+    return this.model
+      .find(codes?.length ? { StockCode: { $in: codes } } : {})
+      .sort({ LastTradingDate: 1, StockCode: 1 })
+      .select({ _id: 0, createdAt: 0, updatedAt: 0 })
+      .lean();
+  }
+}
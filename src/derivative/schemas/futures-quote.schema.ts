@@ -0,0 +1,32 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type FuturesQuoteDocument = HydratedDocument<FuturesQuote>;
+
+@Schema({ timestamps: true, versionKey: false })
+export class FuturesQuote {
+  @Prop({ required: true, unique: true }) StockCode: string;
+  // index the contract settles against, e.g. VN30
+  @Prop() UnderlyingIndex?: string;
+  @Prop() MarketID?: string;
+  @Prop() TradingDate?: Date;
+  @Prop() BasicPrice?: number;
+  @Prop() CeilingPrice?: number;
+  @Prop() FloorPrice?: number;
+  @Prop() OpenPrice?: number;
+  @Prop() HighestPrice?: number;
+  @Prop() LowestPrice?: number;
+  @Prop() LastPrice?: number;
+  @Prop() Change?: number;
+  @Prop() ChangeRatio?: number;
+  @Prop() TotalVol?: number;
+  @Prop() TotalVal?: number;
+  @Prop() OpenInterest?: number;
+  @Prop() ContractMultiplier?: number;
+  @Prop() MaturityDate?: string;
+  @Prop() LastTradingDate?: string;
+  // session reported with the last message, read by /market/status
+  @Prop() TradingSessionId?: string;
+}
+
+export const FuturesQuoteSchema = SchemaFactory.createForClass(FuturesQuote);
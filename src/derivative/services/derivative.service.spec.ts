@@ -0,0 +1,123 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DerivativeService } from './derivative.service';
+import { FuturesQuoteRepository } from '../repositories/futures-quote.repository';
+import { MarketIndexService } from 'src/market-index/services/market-index.service';
+import { FuturesQuote } from '../schemas/futures-quote.schema';
+import { BehaviorSubject } from 'rxjs';
+import { LeaderElectionService } from 'src/leader/services/leader-election.service';
+
+describe('DerivativeService Unit Tests', () => {
+  let service: DerivativeService;
+
+  const mockRepo = {
+    upsert: jest.fn().mockResolvedValue(undefined),
+    getByStockCodes: jest.fn(),
+  };
+
+  const mockMarketIndexService = {
+    getByIndexCode: jest.fn().mockResolvedValue({ IndexValue: 1300.5 }),
+  };
+  const leadership = new BehaviorSubject(true);
+  const mockLeader = { leadership$: leadership };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DerivativeService,
+        { provide: FuturesQuoteRepository, useValue: mockRepo },
+        { provide: MarketIndexService, useValue: mockMarketIndexService },
+        { provide: LeaderElectionService, useValue: mockLeader },
+      ],
+    }).compile();
+
+    service = module.get<DerivativeService>(DerivativeService);
+  });
+
+  afterEach(() => {
+    leadership.next(true);
+    jest.clearAllMocks();
+  });
+
+  // ============================
+  // 1. Gộp tin nhắn từng phần của hợp đồng
+  // ============================
+  it('should merge partial futures messages', async () => {
+    await service.saveFutures({
+      symbol: 'VN30F2501',
+      matchPrice: 1310,
+      openInterestQuantity: 40000,
+    });
+    await service.saveFutures({ symbol: 'VN30F2501', matchPrice: 1312 });
+
+    const [saved] = mockRepo.upsert.mock.calls[1] as [FuturesQuote];
+    expect(saved.UnderlyingIndex).toBe('VN30');
+    expect(saved.LastPrice).toBe(1312);
+    expect(saved.OpenInterest).toBe(40000);
+  });
+
+  // ============================
+  // 2. Basis và số ngày đến đáo hạn
+  // ============================
+  it('should compute basis to the underlying index', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-01-06T10:00:00+07:00'));
+    mockRepo.getByStockCodes.mockResolvedValue([
+      {
+        StockCode: 'VN30F2501',
+        UnderlyingIndex: 'VN30',
+        LastPrice: 1310,
+        LastTradingDate: '20250116',
+      },
+    ]);
+
+    const result = await service.getFutures(['VN30F2501']);
+    jest.useRealTimers();
+
+    expect(mockMarketIndexService.getByIndexCode).toHaveBeenCalledWith('VN30');
+    expect(result.Data[0].UnderlyingValue).toBe(1300.5);
+    expect(result.Data[0].Basis).toBe(9.5);
+    expect(result.Data[0].DaysToMaturity).toBe(10);
+  });
+
+  // ============================
+  // 3. Bỏ qua tin nhắn không đổi, không reject
+  // ============================
+  it('should skip unchanged futures and never reject', async () => {
+    const quote = {
+      symbol: 'VN30F2502',
+      matchPrice: 1310,
+      tradingTime: new Date('2025-02-03T02:30:00.000Z'),
+    };
+    await service.saveFutures(quote);
+    await service.saveFutures({
+      ...quote,
+      tradingTime: new Date('2025-02-03T02:30:05.000Z'),
+    });
+    expect(mockRepo.upsert).toHaveBeenCalledTimes(1);
+
+    await expect(service.saveFutures({ matchPrice: 1 })).resolves.toBe(
+      undefined,
+    );
+    mockRepo.upsert.mockRejectedValueOnce(new Error('mongo down'));
+    await expect(
+      service.saveFutures({ ...quote, matchPrice: 1311 }),
+    ).resolves.toBeUndefined();
+    expect(mockRepo.upsert).toHaveBeenCalledTimes(2);
+  });
+
+  // ============================
+  // 4. Mất quyền leader: trả về hợp đồng trong Mongo
+  // ============================
+  it('should serve the stored futures once demoted', async () => {
+    service.onModuleInit();
+    await service.saveFutures({ symbol: 'VN30F2501', matchPrice: 1310 });
+    mockRepo.getByStockCodes.mockResolvedValue([
+      { StockCode: 'VN30F2501', LastPrice: 1315 },
+    ]);
+    expect((await service.getFutures()).Data[0].LastPrice).toBe(1310);
+
+    leadership.next(false);
+
+    expect((await service.getFutures()).Data[0].LastPrice).toBe(1315);
+    service.onModuleDestroy();
+  });
+});
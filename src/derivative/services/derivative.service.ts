@@ -0,0 +1,152 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { LeaderElectionService } from 'src/leader/services/leader-election.service';
+import { onLeadershipLost } from 'src/leader/utils/leadership.util';
+import { DnseQuote } from 'src/quote/schemas/dnse-quote.schema';
+import { marketMap } from 'src/quote/map/quote.map';
+import { MarketIndexService } from 'src/market-index/services/market-index.service';
+import { FuturesQuote } from '../schemas/futures-quote.schema';
+import { FuturesQuoteRepository } from '../repositories/futures-quote.repository';
+import { daysUntil } from 'src/quote/utils/vn-date.util';
+import { resolveUnderlyingIndex } from '../utils/futures.util';
+import { diffFields } from 'src/quote/utils/quote-diff.util';
+
+@Injectable()
+export class DerivativeService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DerivativeService.name);
+
+  // latest quote per contract, merged across partial messages, while this
+  // instance leads
+  private futures = new Map<string, FuturesQuote>();
+  private subscription: Subscription | null = null;
+
+  constructor(
+    private readonly futuresRepo: FuturesQuoteRepository,
+    private readonly marketIndexService: MarketIndexService,
+    private readonly leaderService: LeaderElectionService,
+  ) {}
+
+  onModuleInit() {
+    // a demoted replica must read what the new leader writes
+    this.subscription = onLeadershipLost(this.leaderService, () =>
+      this.futures.clear(),
+    );
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  mapFutures(
+    data: Partial<DnseQuote>,
+    previous?: FuturesQuote,
+  ): FuturesQuote | null {
+    if (!data.symbol) return null;
+
+    const mapped: FuturesQuote = {
+      StockCode: data.symbol,
+      UnderlyingIndex: resolveUnderlyingIndex(data.symbol) ?? undefined,
+      MarketID: data.marketId
+        ? (marketMap[data.marketId] ?? data.marketId)
+        : undefined,
+      TradingDate: data.tradingTime ? new Date(data.tradingTime) : undefined,
+      BasicPrice: data.referencePrice,
+      CeilingPrice: data.highLimitPrice,
+      FloorPrice: data.lowLimitPrice,
+      OpenPrice: data.openPrice,
+      HighestPrice: data.highestPrice,
+      LowestPrice: data.lowestPrice,
+      LastPrice: data.matchPrice,
+      Change: data.changedValue,
+      ChangeRatio: data.changedRatio,
+      TotalVol: data.totalVolumeTraded,
+      TotalVal: data.grossTradeAmount,
+      OpenInterest: data.openInterestQuantity,
+      ContractMultiplier: data.contractMultiplier,
+      MaturityDate: data.maturityDate,
+      LastTradingDate: data.lastTradingDate,
+      TradingSessionId: data.tradingSessionId,
+    };
+
+    // keep fields the message did not carry
+    return {
+      ...previous,
+      ...Object.fromEntries(
+        Object.entries(mapped).filter(([, value]) => value !== undefined),
+      ),
+    } as FuturesQuote;
+  }
+
+  /**
+   * Save a futures message if any of its values changed (the time alone is
+   * no news). Called fire-and-forget from the MQTT handler: never rejects.
+   */
+  async saveFutures(data: Partial<DnseQuote>): Promise<void> {
+    const previous = data.symbol ? this.futures.get(data.symbol) : undefined;
+    const quote = this.mapFutures(data, previous);
+    if (!quote) {
+      this.logger.warn('Futures message without symbol, skipped');
+      return;
+    }
+
+    if (
+      previous &&
+      diffFields(previous, quote).every((c) => c.field === 'TradingDate')
+    )
+      return;
+
+    this.futures.set(quote.StockCode, quote);
+
+    try {
+      await this.futuresRepo.upsert(quote);
+    } catch (err) {
+      this.logger.error(`Failed to save futures ${quote.StockCode}`, err);
+    }
+  }
+
+  /**
+   * Futures with days to maturity and basis (futures price − underlying
+   * index value). All contracts when no code is given.
+   */
+  async getFutures(codes?: string[]) {
+    const stored = await this.futuresRepo.getByStockCodes(codes);
+    const items = stored.map(
+      (quote) => this.futures.get(quote.StockCode) ?? quote,
+    );
+
+    const underlyings = new Map<string, number | null>();
+    for (const code of new Set(items.map((i) => i.UnderlyingIndex))) {
+      if (!code) continue;
+      const index = await this.marketIndexService.getByIndexCode(code);
+      underlyings.set(code, index?.IndexValue ?? null);
+    }
+
+    const now = Date.now();
+    const data = items.map((quote) => {
+      const underlyingValue = quote.UnderlyingIndex
+        ? (underlyings.get(quote.UnderlyingIndex) ?? null)
+        : null;
+      const basis =
+        quote.LastPrice !== undefined && underlyingValue !== null
+          ? Number((quote.LastPrice - underlyingValue).toFixed(2))
+          : null;
+
+      return {
+        ...quote,
+        UnderlyingValue: underlyingValue,
+        Basis: basis,
+        DaysToMaturity: daysUntil(
+          quote.LastTradingDate ?? quote.MaturityDate,
+          now,
+        ),
+      };
+    });
+
+    return { TotalItems: data.length, Data: data };
+  }
+}
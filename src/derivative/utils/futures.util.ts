@@ -0,0 +1,25 @@
+import { DnseQuote } from 'src/quote/schemas/dnse-quote.schema';
+import { SYMBOL_TYPE } from 'src/quote/enums/symbol-type.enum';
+import { MARKET_INDEX } from 'src/market-index/enums/market-index.enum';
+
+// legacy codes (VN30F2501) and KRX codes (41I1F4000: 41I1 = VN30 futures)
+const underlyingPatterns: [RegExp, string][] = [
+  [/^VN30F/, MARKET_INDEX.VN30],
+  [/^41I1/, MARKET_INDEX.VN30],
+  [/^VN100F/, 'VN100'],
+  [/^41I2/, 'VN100'],
+];
+
+export function resolveUnderlyingIndex(symbol: string): string | null {
+  return underlyingPatterns.find(([re]) => re.test(symbol))?.[1] ?? null;
+}
+
+export function isFuturesQuote(quote: Partial<DnseQuote>): boolean {
+  if (quote.symbolType)
+    return quote.symbolType === (SYMBOL_TYPE.FUTURES as string);
+
+  return (
+    quote.marketId === 'MARKET_ID_DVX' ||
+    (!!quote.symbol && !!resolveUnderlyingIndex(quote.symbol))
+  );
+}
@@ -0,0 +1,30 @@
+import { Controller, Get, NotFoundException, Query } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { StockCodeQueryDto } from 'src/common/dto/stock-code-query.dto';
+import { ForeignFlowService } from '../services/foreign-flow.service';
+import { ForeignFlowTopQueryDto } from '../dto/foreign-flow-top-query.dto';
+
+@ApiTags('foreign flow')
+@Controller()
+export class ForeignFlowController {
+  constructor(private readonly foreignFlowService: ForeignFlowService) {}
+
+  /**
+   * GET /foreignflow?Code=FPT
+   */
+  @Get('foreignflow')
+  async getBySymbol(@Query() { Code }: StockCodeQueryDto) {
+    const flow = await this.foreignFlowService.getBySymbol(Code);
+    if (!flow) throw new NotFoundException(`Symbol ${Code} not found`);
+
+    return flow;
+  }
+
+  /**
+   * GET /foreignflow/top?Market_ID=HOSE&Limit=10
+   */
+  @Get('foreignflow/top')
+  async getMarketFlow(@Query() query: ForeignFlowTopQueryDto) {
+    return this.foreignFlowService.getMarketFlow(query.Market_ID, query.Limit);
+  }
+}
@@ -0,0 +1,17 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, Max, Min } from 'class-validator';
+import { MARKET } from 'src/quote/enums/market-code.enum';
+
+export class ForeignFlowTopQueryDto {
+  @ApiPropertyOptional({ enum: MARKET, default: MARKET.MARKET_ID_STO })
+  @IsIn(Object.values(MARKET))
+  Market_ID: string = MARKET.MARKET_ID_STO;
+
+  @ApiPropertyOptional({ default: 10, minimum: 1, maximum: 100 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  Limit: number = 10;
+}
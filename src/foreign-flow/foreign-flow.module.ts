@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  DnseQuote,
+  DnseQuoteSchema,
+} from 'src/quote/schemas/dnse-quote.schema';
+import { ForeignFlowService } from './services/foreign-flow.service';
+import { ForeignFlowRepository } from './repositories/foreign-flow.repository';
+import { ForeignFlowController } from './controllers/foreign-flow.controller';
+import { CalendarModule } from 'src/calendar/calendar.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: DnseQuote.name, schema: DnseQuoteSchema },
+    ]),
+    CalendarModule,
+  ],
+  providers: [ForeignFlowService, ForeignFlowRepository],
+  controllers: [ForeignFlowController],
+})
+export class ForeignFlowModule {}
@@ -0,0 +1,100 @@
+import { Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { DnseQuote } from 'src/quote/schemas/dnse-quote.schema';
+
+const foreignFields = {
+  _id: 0,
+  symbol: 1,
+  marketId: 1,
+  tradingTime: 1,
+  buyForeignQuantity: 1,
+  sellForeignQuantity: 1,
+  buyForeignValue: 1,
+  sellForeignValue: 1,
+  foreignerBuyPossibleQuantity: 1,
+  foreignerOrderLimitQuantity: 1,
+};
+
+export type ForeignFlowQuote = Pick<
+  DnseQuote,
+  | 'symbol'
+  | 'marketId'
+  | 'tradingTime'
+  | 'buyForeignQuantity'
+  | 'sellForeignQuantity'
+  | 'buyForeignValue'
+  | 'sellForeignValue'
+  | 'foreignerBuyPossibleQuantity'
+  | 'foreignerOrderLimitQuantity'
+>;
+
+export interface ForeignFlowTotals {
+  buyQuantity: number;
+  sellQuantity: number;
+  buyValue: number;
+  sellValue: number;
+}
+
+@Injectable()
+export class ForeignFlowRepository {
+  constructor(
+    @InjectModel(DnseQuote.name) private readonly model: Model<DnseQuote>,
+  ) {}
+
+  async getBySymbol(symbol: string): Promise<ForeignFlowQuote | null> {
+    return this.model.findOne({ symbol }).select(foreignFields).lean();
+  }
+
+  /**
+   * Market totals and the symbols with the largest foreign net buy / net
+   * sell value, in one aggregation. Only symbols that traded on
+   * `tradingDay`: the others still hold the foreign flow of an older day.
+   */
+  async getMarketFlow(marketId: string, tradingDay: Date, limit: number) {
+    const netValue = {
+      $subtract: [
+        { $ifNull: ['$buyForeignValue', 0] },
+        { $ifNull: ['$sellForeignValue', 0] },
+      ],
+    };
+
+    const [result] = await this.model.aggregate<{
+      totals: ForeignFlowTotals[];
+      topNetBuy: ForeignFlowQuote[];
+      topNetSell: ForeignFlowQuote[];
+    }>([
+      { $match: { marketId, tradingTime: { $gte: tradingDay } } },
+      { $addFields: { netValue } },
+      {
+        $facet: {
+          totals: [
+            {
+              $group: {
+                _id: null,
+                buyQuantity: { $sum: '$buyForeignQuantity' },
+                sellQuantity: { $sum: '$sellForeignQuantity' },
+                buyValue: { $sum: '$buyForeignValue' },
+                sellValue: { $sum: '$sellForeignValue' },
+              },
+            },
+          ],
+          topNetBuy: [
+            { $match: { netValue: { $gt: 0 } } },
+            { $sort: { netValue: -1 } },
+            { $limit: limit },
+            { $project: foreignFields },
+          ],
+          topNetSell: [
+            { $match: { netValue: { $lt: 0 } } },
+            { $sort: { netValue: 1 } },
+            { $limit: limit },
+            { $project: foreignFields },
+          ],
+        },
+      },
+    ]);
+
+    return result;
+  }
+}
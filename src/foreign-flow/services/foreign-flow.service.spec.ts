@@ -0,0 +1,88 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForeignFlowService } from './foreign-flow.service';
+import { ForeignFlowRepository } from '../repositories/foreign-flow.repository';
+import { TradingCalendarService } from 'src/calendar/services/trading-calendar.service';
+
+describe('ForeignFlowService Unit Tests', () => {
+  let service: ForeignFlowService;
+
+  const mockRepo = {
+    getBySymbol: jest.fn(),
+    getMarketFlow: jest.fn(),
+  };
+
+  const mockCalendar = {
+    getTradingDayStart: jest
+      .fn()
+      .mockReturnValue(new Date('2025-01-02T00:00:00+07:00')),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ForeignFlowService,
+        { provide: ForeignFlowRepository, useValue: mockRepo },
+        { provide: TradingCalendarService, useValue: mockCalendar },
+      ],
+    }).compile();
+
+    service = module.get<ForeignFlowService>(ForeignFlowService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // ============================
+  // 1. Mua / bán ròng và room còn lại của một mã
+  // ============================
+  it('should compute net flow and remaining room of a symbol', async () => {
+    mockRepo.getBySymbol.mockResolvedValue({
+      symbol: 'FPT',
+      marketId: 'MARKET_ID_STO',
+      buyForeignQuantity: 1000,
+      sellForeignQuantity: 3000,
+      buyForeignValue: 100000,
+      sellForeignValue: 300000,
+      foreignerBuyPossibleQuantity: 250,
+      foreignerOrderLimitQuantity: 1000,
+    });
+
+    const flow = await service.getBySymbol('FPT');
+
+    expect(flow).toMatchObject({
+      StockCode: 'FPT',
+      MarketID: 'HOSE',
+      ForeignNetVol: -2000,
+      ForeignNetVal: -200000,
+      ForeignRemainRoom: 250,
+      ForeignRemainRatio: 25,
+    });
+  });
+
+  // ============================
+  // 2. Tổng hợp theo sàn
+  // ============================
+  it('should query the feed market id on the trading day and total the flow', async () => {
+    mockRepo.getMarketFlow.mockResolvedValue({
+      totals: [
+        { buyQuantity: 10, sellQuantity: 4, buyValue: 100, sellValue: 40 },
+      ],
+      topNetBuy: [{ symbol: 'FPT', buyForeignValue: 100, sellForeignValue: 0 }],
+      topNetSell: [],
+    });
+
+    const flow = await service.getMarketFlow('HNX', 5);
+
+    expect(mockRepo.getMarketFlow).toHaveBeenCalledWith(
+      'MARKET_ID_STX',
+      new Date('2025-01-02T00:00:00+07:00'),
+      5,
+    );
+    expect(flow.ForeignNetVal).toBe(60);
+    expect(flow.TopNetBuy[0]).toMatchObject({
+      StockCode: 'FPT',
+      ForeignNetVal: 100,
+    });
+  });
+});
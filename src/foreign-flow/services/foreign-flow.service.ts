@@ -0,0 +1,91 @@
+import { Injectable } from '@nestjs/common';
+import { marketMap } from 'src/quote/map/quote.map';
+import { TradingCalendarService } from 'src/calendar/services/trading-calendar.service';
+import {
+  ForeignFlowQuote,
+  ForeignFlowRepository,
+} from '../repositories/foreign-flow.repository';
+
+@Injectable()
+export class ForeignFlowService {
+  constructor(
+    private readonly foreignFlowRepo: ForeignFlowRepository,
+    private readonly calendar: TradingCalendarService,
+  ) {}
+
+  /**
+   * Foreign flow of one symbol.
+   * The remaining room is foreignerBuyPossibleQuantity, out of the
+   * foreignerOrderLimitQuantity foreign ownership limit.
+   */
+  toForeignFlow(quote: ForeignFlowQuote) {
+    const buyVol = quote.buyForeignQuantity ?? 0;
+    const sellVol = quote.sellForeignQuantity ?? 0;
+    const buyVal = quote.buyForeignValue ?? 0;
+    const sellVal = quote.sellForeignValue ?? 0;
+    const room = quote.foreignerOrderLimitQuantity ?? null;
+    const remainRoom = quote.foreignerBuyPossibleQuantity ?? null;
+
+    return {
+      StockCode: quote.symbol,
+      MarketID: quote.marketId
+        ? (marketMap[quote.marketId] ?? quote.marketId)
+        : null,
+      TradingDate: quote.tradingTime ?? null,
+      ForeignBuyVol: buyVol,
+      ForeignSellVol: sellVol,
+      ForeignNetVol: buyVol - sellVol,
+      ForeignBuyVal: buyVal,
+      ForeignSellVal: sellVal,
+      ForeignNetVal: buyVal - sellVal,
+      ForeignRoom: room,
+      ForeignRemainRoom: remainRoom,
+      ForeignRemainRatio:
+        room && remainRoom !== null
+          ? Number(((remainRoom / room) * 100).toFixed(2))
+          : null,
+    };
+  }
+
+  async getBySymbol(symbol: string) {
+    const quote = await this.foreignFlowRepo.getBySymbol(symbol);
+    return quote ? this.toForeignFlow(quote) : null;
+  }
+
+  /**
+   * Foreign totals of a market with the top net-bought / net-sold symbols,
+   * over the current trading day (the last one on a weekend or holiday).
+   */
+  async getMarketFlow(marketId: string, limit: number) {
+    // Market_ID is the API value (HOSE), the feed uses MARKET_ID_STO
+    const dnseMarketId =
+      Object.keys(marketMap).find(
+        (key) => (marketMap[key] as string) === marketId,
+      ) ?? marketId;
+
+    const { totals, topNetBuy, topNetSell } =
+      await this.foreignFlowRepo.getMarketFlow(
+        dnseMarketId,
+        this.calendar.getTradingDayStart(),
+        limit,
+      );
+    const total = totals[0] ?? {
+      buyQuantity: 0,
+      sellQuantity: 0,
+      buyValue: 0,
+      sellValue: 0,
+    };
+
+    return {
+      Market_ID: marketId,
+      ForeignBuyVol: total.buyQuantity,
+      ForeignSellVol: total.sellQuantity,
+      ForeignNetVol: total.buyQuantity - total.sellQuantity,
+      ForeignBuyVal: total.buyValue,
+      ForeignSellVal: total.sellValue,
+      ForeignNetVal: total.buyValue - total.sellValue,
+      TopNetBuy: topNetBuy.map((quote) => this.toForeignFlow(quote)),
+      TopNetSell: topNetSell.map((quote) => this.toForeignFlow(quote)),
+    };
+  }
+}
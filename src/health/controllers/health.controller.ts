@@ -0,0 +1,33 @@
+import { Controller, Get, HttpStatus, Res } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import type { Response } from 'express';
+import { HealthService } from '../services/health.service';
+
+@ApiTags('health')
+@Controller('health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  /**
+   * GET /health/live
+   * Liveness probe, does not touch any dependency.
+   */
+  @Get('live')
+  getLiveness() {
+    return this.healthService.getLiveness();
+  }
+
+  /**
+   * GET /health/ready
+   * Readiness probe: 200 when ready (`ok` or `degraded`), 503 on `error`,
+   * with the state of every check in the body.
+   */
+  @Get('ready')
+  async getReadiness(@Res({ passthrough: true }) res: Response) {
+    const readiness = await this.healthService.getReadiness();
+    if (readiness.Status === 'error')
+      res.status(HttpStatus.SERVICE_UNAVAILABLE);
+
+    return readiness;
+  }
+}
@@ -0,0 +1,6 @@
+export enum HEALTH_STATUS {
+  UP = 'up',
+  DOWN = 'down',
+  // not expected to run right now (e.g. MQTT outside trading hours)
+  IDLE = 'idle',
+}
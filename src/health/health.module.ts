@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from 'src/auth/auth.module';
+import { CalendarModule } from 'src/calendar/calendar.module';
+import { LeaderModule } from 'src/leader/leader.module';
+import { MqttModule } from 'src/mqtt/mqtt.module';
+import { HealthService } from './services/health.service';
+import { HealthController } from './controllers/health.controller';
+
+@Module({
+  imports: [AuthModule, CalendarModule, LeaderModule, MqttModule],
+  providers: [HealthService],
+  controllers: [HealthController],
+})
+export class HealthModule {}
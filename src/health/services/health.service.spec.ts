@@ -0,0 +1,168 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getConnectionToken } from '@nestjs/mongoose';
+import { HealthService } from './health.service';
+import { HEALTH_STATUS } from '../enums/health-status.enum';
+import { AuthService } from 'src/auth/services/auth.service';
+import { TradingCalendarService } from 'src/calendar/services/trading-calendar.service';
+import { LeaderElectionService } from 'src/leader/services/leader-election.service';
+import { MqttConnectionManager } from 'src/mqtt/services/mqtt-connection.service';
+
+describe('HealthService Unit Tests', () => {
+  let service: HealthService;
+
+  const now = new Date('2025-01-02T10:00:00+07:00').getTime();
+
+  const mockConnection = { readyState: 1 };
+  const mockMqtt = { getStatus: jest.fn() };
+  const mockAuth = { getTokenStatus: jest.fn() };
+  const mockLeader = { instanceId: 'api-1', isLeader: true };
+  const mockCalendar = { isTradingTime: jest.fn() };
+  const config: Record<string, string | undefined> = {};
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HealthService,
+        { provide: getConnectionToken(), useValue: mockConnection },
+        { provide: MqttConnectionManager, useValue: mockMqtt },
+        { provide: AuthService, useValue: mockAuth },
+        { provide: LeaderElectionService, useValue: mockLeader },
+        { provide: TradingCalendarService, useValue: mockCalendar },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    return module.get<HealthService>(HealthService);
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers().setSystemTime(now);
+    mockConnection.readyState = 1;
+    mockMqtt.getStatus.mockReturnValue({
+      connected: true,
+      connecting: false,
+      lastMessageTime: now - 1000,
+      reconnectDelay: 5000,
+      reconnectScheduled: false,
+    });
+    mockAuth.getTokenStatus.mockResolvedValue({
+      expiresAt: new Date(now + 3600000),
+      expiresInMs: 3600000,
+      isValid: true,
+    });
+    mockCalendar.isTradingTime.mockReturnValue(true);
+
+    service = await createService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+    delete config.HEALTH_FEED_REQUIRED;
+  });
+
+  // ============================
+  // 1. Mọi thứ hoạt động trong giờ giao dịch
+  // ============================
+  it('should be ready when Mongo, MQTT and the token are up', async () => {
+    const readiness = await service.getReadiness();
+
+    expect(readiness.Status).toBe('ok');
+    expect(readiness.Checks.Mqtt).toMatchObject({
+      Status: HEALTH_STATUS.UP,
+      LastMessageAgeMs: 1000,
+      ReconnectDelayMs: 5000,
+    });
+    expect(readiness.Checks.Token.Status).toBe(HEALTH_STATUS.UP);
+  });
+
+  // ============================
+  // 2. Feed ngừng trong giờ giao dịch: degraded, error nếu bắt buộc
+  // ============================
+  it('should be degraded when the feed is stale during trading hours', async () => {
+    mockMqtt.getStatus.mockReturnValue({
+      connected: true,
+      connecting: false,
+      lastMessageTime: now - 5 * 60 * 1000,
+      reconnectDelay: 20000,
+      reconnectScheduled: true,
+    });
+
+    const readiness = await service.getReadiness();
+
+    expect(readiness.Status).toBe('degraded');
+    expect(readiness.Checks.Mqtt.Status).toBe(HEALTH_STATUS.DOWN);
+
+    config.HEALTH_FEED_REQUIRED = 'true';
+    const strict = await createService();
+
+    expect((await strict.getReadiness()).Status).toBe('error');
+  });
+
+  // ============================
+  // 3. Ngoài giờ giao dịch: MQTT và token không bắt buộc
+  // ============================
+  it('should stay ready outside trading hours without MQTT', async () => {
+    mockCalendar.isTradingTime.mockReturnValue(false);
+    mockMqtt.getStatus.mockReturnValue({
+      connected: false,
+      connecting: false,
+      lastMessageTime: now - 3600000,
+      reconnectDelay: 5000,
+      reconnectScheduled: false,
+    });
+    mockAuth.getTokenStatus.mockResolvedValue({
+      expiresAt: new Date(now - 1000),
+      expiresInMs: -1000,
+      isValid: false,
+    });
+
+    const readiness = await service.getReadiness();
+
+    expect(readiness.Status).toBe('ok');
+    expect(readiness.Checks.Mqtt.Status).toBe(HEALTH_STATUS.IDLE);
+    expect(readiness.Checks.Token.Status).toBe(HEALTH_STATUS.IDLE);
+  });
+
+  // ============================
+  // 4. Mất kết nối Mongo
+  // ============================
+  it('should not be ready when Mongo is disconnected', async () => {
+    mockConnection.readyState = 0;
+    mockAuth.getTokenStatus.mockRejectedValue(new Error('not connected'));
+
+    const readiness = await service.getReadiness();
+
+    expect(readiness.Status).toBe('error');
+    expect(readiness.Checks.Mongo).toEqual({
+      Status: HEALTH_STATUS.DOWN,
+      State: 'disconnected',
+    });
+    expect(readiness.Checks.Token).toEqual({
+      Status: HEALTH_STATUS.DOWN,
+      Error: 'not connected',
+    });
+  });
+
+  // ============================
+  // 5. Mongo treo: kiểm tra token hết thời gian chờ
+  // ============================
+  it('should time out a token check that never answers', async () => {
+    mockConnection.readyState = 0;
+    mockAuth.getTokenStatus.mockReturnValue(new Promise(() => undefined));
+
+    const pending = service.getReadiness();
+    await jest.advanceTimersByTimeAsync(2000);
+    const readiness = await pending;
+
+    expect(readiness.Status).toBe('error');
+    expect(readiness.Checks.Token).toEqual({
+      Status: HEALTH_STATUS.DOWN,
+      Error: 'No answer within 2000 ms',
+    });
+  });
+});
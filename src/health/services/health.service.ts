@@ -0,0 +1,161 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectConnection } from '@nestjs/mongoose';
+import { Connection, ConnectionStates } from 'mongoose';
+import { AuthService } from 'src/auth/services/auth.service';
+import { TradingCalendarService } from 'src/calendar/services/trading-calendar.service';
+import { LeaderElectionService } from 'src/leader/services/leader-election.service';
+import { MqttConnectionManager } from 'src/mqtt/services/mqtt-connection.service';
+import { HEALTH_STATUS } from '../enums/health-status.enum';
+import { readPositiveInt } from 'src/common/utils/config.util';
+
+/**
+ * Liveness: the process answers.
+ * Readiness: Mongo is connected. When this instance is the ingest leader
+ * during trading hours, MQTT must also be connected with fresh messages and
+ * the DNSE token valid; a failing feed check makes the status `degraded`
+ * (still 200, the API keeps serving stored data) unless
+ * HEALTH_FEED_REQUIRED=true makes it an `error`. Outside trading hours (or
+ * on a follower) the feed checks report `idle`.
+ * The token is read from Mongo, which buffers commands while disconnected:
+ * the check gives up after HEALTH_CHECK_TIMEOUT_MS instead of hanging.
+ */
+@Injectable()
+export class HealthService {
+  private readonly logger = new Logger(HealthService.name);
+
+  // max age of the last MQTT message while the feed is expected
+  private readonly feedStaleMs: number;
+  // a down feed fails readiness instead of degrading it
+  private readonly feedRequired: boolean;
+  private readonly checkTimeoutMs: number;
+
+  constructor(
+    @InjectConnection() private readonly connection: Connection,
+    private readonly mqttConnection: MqttConnectionManager,
+    private readonly authService: AuthService,
+    private readonly leaderService: LeaderElectionService,
+    private readonly calendar: TradingCalendarService,
+    configService: ConfigService,
+  ) {
+    this.feedStaleMs = Number(
+      configService.get('HEALTH_FEED_STALE_MS') ?? 2 * 60 * 1000,
+    );
+    this.feedRequired =
+      configService.get<string>('HEALTH_FEED_REQUIRED') === 'true';
+    this.checkTimeoutMs = readPositiveInt(
+      configService,
+      'HEALTH_CHECK_TIMEOUT_MS',
+      2000,
+      this.logger,
+    );
+  }
+
+  getLiveness() {
+    return {
+      Status: 'ok',
+      InstanceId: this.leaderService.instanceId,
+      Uptime: Math.round(process.uptime()),
+      Time: new Date(),
+    };
+  }
+
+  async getReadiness() {
+    const now = Date.now();
+    const isTradingTime = this.calendar.isTradingTime(now);
+    const feedExpected = this.leaderService.isLeader && isTradingTime;
+
+    const checks = {
+      Mongo: this.checkMongo(),
+      Mqtt: this.checkMqtt(now, feedExpected),
+      Token: await this.checkToken(feedExpected),
+    };
+    const isDown = (check: { Status: HEALTH_STATUS }) =>
+      check.Status === HEALTH_STATUS.DOWN;
+    const feedDown = isDown(checks.Mqtt) || isDown(checks.Token);
+
+    let Status = 'ok';
+    if (isDown(checks.Mongo) || (feedDown && this.feedRequired))
+      Status = 'error';
+    else if (feedDown) Status = 'degraded';
+
+    return {
+      Status,
+      InstanceId: this.leaderService.instanceId,
+      IsLeader: this.leaderService.isLeader,
+      TradingTime: isTradingTime,
+      Time: new Date(now),
+      Checks: checks,
+    };
+  }
+
+  private checkMongo() {
+    const state = this.connection.readyState;
+
+    return {
+      Status:
+        state === ConnectionStates.connected
+          ? HEALTH_STATUS.UP
+          : HEALTH_STATUS.DOWN,
+      State: ConnectionStates[state],
+    };
+  }
+
+  private checkMqtt(now: number, feedExpected: boolean) {
+    const status = this.mqttConnection.getStatus();
+    const lastMessageAge = now - status.lastMessageTime;
+
+    let Status = HEALTH_STATUS.IDLE;
+    if (feedExpected)
+      Status =
+        status.connected && lastMessageAge <= this.feedStaleMs
+          ? HEALTH_STATUS.UP
+          : HEALTH_STATUS.DOWN;
+
+    return {
+      Status,
+      Connected: status.connected,
+      Connecting: status.connecting,
+      LastMessageTime: new Date(status.lastMessageTime),
+      LastMessageAgeMs: lastMessageAge,
+      ReconnectScheduled: status.reconnectScheduled,
+      ReconnectDelayMs: status.reconnectDelay,
+    };
+  }
+
+  private async checkToken(feedExpected: boolean) {
+    try {
+      const token = await withTimeout(
+        this.authService.getTokenStatus(),
+        this.checkTimeoutMs,
+      );
+
+      let Status = HEALTH_STATUS.UP;
+      if (!token.isValid)
+        Status = feedExpected ? HEALTH_STATUS.DOWN : HEALTH_STATUS.IDLE;
+
+      return {
+        Status,
+        ExpiresAt: token.expiresAt,
+        ExpiresInMs: token.expiresInMs,
+      };
+    } catch (err) {
+      return {
+        Status: HEALTH_STATUS.DOWN,
+        Error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`No answer within ${ms} ms`)),
+      ms,
+    );
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
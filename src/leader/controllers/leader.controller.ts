@@ -0,0 +1,18 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { LeaderElectionService } from '../services/leader-election.service';
+
+@ApiTags('leader')
+@Controller('leader')
+export class LeaderController {
+  constructor(private readonly leaderService: LeaderElectionService) {}
+
+  /**
+   * GET /leader
+   * Whether this instance owns the MQTT feed, and which instance does.
+   */
+  @Get()
+  getStatus() {
+    return this.leaderService.getStatus();
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { LeaderLease, LeaderLeaseSchema } from './schemas/leader-lease.schema';
+import { LeaderLeaseRepository } from './repositories/leader-lease.repository';
+import { LeaderElectionService } from './services/leader-election.service';
+import { LeaderController } from './controllers/leader.controller';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: LeaderLease.name, schema: LeaderLeaseSchema },
+    ]),
+  ],
+  providers: [LeaderElectionService, LeaderLeaseRepository],
+  exports: [LeaderElectionService],
+  controllers: [LeaderController],
+})
+export class LeaderModule {}
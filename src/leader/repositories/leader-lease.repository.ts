@@ -0,0 +1,71 @@
+import { Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { LeaderLease } from '../schemas/leader-lease.schema';
+
+const DUPLICATE_KEY = 11000;
+
+@Injectable()
+export class LeaderLeaseRepository {
+  constructor(
+    @InjectModel(LeaderLease.name)
+    private readonly model: Model<LeaderLease>,
+  ) {}
+
+  /**
+   * Build the unique index on Name. tryAcquire relies on it to fail with a
+   * duplicate key instead of upserting a second lease, and Mongoose builds
+   * indexes in the background after connecting.
+   */
+  async ensureIndexes() {
+    await this.model.createIndexes();
+  }
+
+  /**
+   * Take or renew the lease: succeeds when the lease is free, expired or
+   * already held by `holder`. Expiry uses the Mongo server clock ($$NOW)
+   * so clock drift between instances does not matter.
+   */
+  async tryAcquire(name: string, holder: string, ttlMs: number) {
+    try {
+      await this.model.updateOne(
+        {
+          Name: name,
+          $or: [
+            { Holder: holder },
+            { $expr: { $lte: ['$ExpiresAt', '$$NOW'] } },
+          ],
+        },
+        [
+          {
+            $set: {
+              Holder: holder,
+              ExpiresAt: { $add: ['$$NOW', ttlMs] },
+            },
+          },
+        ],
+        { upsert: true },
+      );
+      return true;
+    } catch (err) {
+      // the lease exists and is held by another instance
+      if ((err as { code?: number }).code === DUPLICATE_KEY) return false;
+      throw err;
+    }
+  }
+
+  /** Give the lease up so another instance can take it right away. */
+  async release(name: string, holder: string) {
+    return this.model.updateOne(
+      { Name: name, Holder: holder },
+      { $set: { ExpiresAt: new Date(0) } },
+    );
+  }
+
+  async get(name: string) {
+    return this.model
+      .findOne({ Name: name })
+      .select({ _id: 0, createdAt: 0 })
+      .lean();
+  }
+}
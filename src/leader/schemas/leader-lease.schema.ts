@@ -0,0 +1,14 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type LeaderLeaseDocument = HydratedDocument<LeaderLease>;
+
+/** One document per lease, held by the instance in Holder until ExpiresAt. */
+@Schema({ timestamps: true, versionKey: false })
+export class LeaderLease {
+  @Prop({ required: true, unique: true }) Name: string;
+  @Prop({ required: true }) Holder: string;
+  @Prop({ required: true }) ExpiresAt: Date;
+}
+
+export const LeaderLeaseSchema = SchemaFactory.createForClass(LeaderLease);
@@ -0,0 +1,118 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { LeaderElectionService } from './leader-election.service';
+import { LeaderLeaseRepository } from '../repositories/leader-lease.repository';
+
+describe('LeaderElectionService Unit Tests', () => {
+  let service: LeaderElectionService;
+
+  const mockRepo = {
+    ensureIndexes: jest.fn().mockResolvedValue(undefined),
+    tryAcquire: jest.fn(),
+    release: jest.fn().mockResolvedValue({}),
+    get: jest.fn(),
+  };
+
+  const config: Record<string, string | number> = {
+    INSTANCE_ID: 'api-1',
+    LEADER_LEASE_TTL_MS: 30000,
+    LEADER_RENEW_INTERVAL_MS: 10000,
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LeaderElectionService,
+        { provide: LeaderLeaseRepository, useValue: mockRepo },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LeaderElectionService>(LeaderElectionService);
+  });
+
+  afterEach(async () => {
+    await service.onApplicationShutdown();
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  // ============================
+  // 1. Lấy được lease: trở thành leader
+  // ============================
+  it('should lead when the lease is acquired', async () => {
+    mockRepo.tryAcquire.mockResolvedValue(true);
+    const changes: boolean[] = [];
+    service.leadership$.subscribe((isLeader) => changes.push(isLeader));
+
+    await service.onApplicationBootstrap();
+
+    expect(mockRepo.tryAcquire).toHaveBeenCalledWith(
+      'mqtt-ingest',
+      'api-1',
+      30000,
+    );
+    expect(service.isLeader).toBe(true);
+    expect(changes).toEqual([false, true]);
+  });
+
+  // ============================
+  // 2. Lease do instance khác giữ: chỉ phục vụ API
+  // ============================
+  it('should follow while another instance holds the lease', async () => {
+    mockRepo.tryAcquire.mockResolvedValue(false);
+
+    await service.onApplicationBootstrap();
+
+    expect(service.isLeader).toBe(false);
+  });
+
+  // ============================
+  // 3. Không gia hạn được: tự rút khi lease hết hạn
+  // ============================
+  it('should step down when the lease runs out without renewal', async () => {
+    mockRepo.tryAcquire.mockResolvedValueOnce(true);
+    await service.onApplicationBootstrap();
+
+    mockRepo.tryAcquire.mockRejectedValue(new Error('mongo down'));
+    await jest.advanceTimersByTimeAsync(20000);
+    expect(service.isLeader).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(service.isLeader).toBe(false);
+  });
+
+  // ============================
+  // 4. Trả lease khi tắt ứng dụng
+  // ============================
+  it('should release the lease on shutdown', async () => {
+    mockRepo.tryAcquire.mockResolvedValue(true);
+    await service.onApplicationBootstrap();
+
+    await service.onApplicationShutdown();
+
+    expect(mockRepo.release).toHaveBeenCalledWith('mqtt-ingest', 'api-1');
+    expect(service.isLeader).toBe(false);
+  });
+
+  // ============================
+  // 5. Chờ unique index trước khi tranh lease
+  // ============================
+  it('should not campaign before the lease index is built', async () => {
+    mockRepo.ensureIndexes.mockRejectedValueOnce(new Error('mongo down'));
+    mockRepo.tryAcquire.mockResolvedValue(true);
+
+    await service.onApplicationBootstrap();
+    expect(mockRepo.tryAcquire).not.toHaveBeenCalled();
+    expect(service.isLeader).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(mockRepo.ensureIndexes).toHaveBeenCalledTimes(2);
+    expect(service.isLeader).toBe(true);
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { hostname } from 'os';
+import { BehaviorSubject, distinctUntilChanged, Observable } from 'rxjs';
+import { LeaderLeaseRepository } from '../repositories/leader-lease.repository';
+
+const INGEST_LEASE = 'mqtt-ingest';
+
+/**
+ * Elects the one instance that owns the DNSE MQTT connection, through a
+ * lease document in Mongo.
+ *
+ * - Every instance tries to take / renew the lease every renew interval,
+ *   only the holder succeeds.
+ * - The leader steps down on its own when it could not renew before its
+ *   lease ran out, so at most one instance leads at a time.
+ * - When the leader stops (crash, network split) the lease expires and
+ *   another instance takes over on its next attempt; on a clean shutdown
+ *   the lease is released right away.
+ *
+ * LEADER_ELECTION=false makes the instance lead without a lease
+ * (single instance / local development).
+ */
+@Injectable()
+export class LeaderElectionService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(LeaderElectionService.name);
+
+  readonly instanceId: string;
+  private readonly enabled: boolean;
+  private readonly leaseTtl: number;
+  private readonly renewInterval: number;
+
+  private readonly leader = new BehaviorSubject(false);
+  private leaderSince: Date | null = null;
+
+  private renewTimer: NodeJS.Timeout | null = null;
+  private expiryTimer: NodeJS.Timeout | null = null;
+  private isStopped = false;
+  private indexesReady = false;
+
+  constructor(
+    private readonly leaseRepo: LeaderLeaseRepository,
+    configService: ConfigService,
+  ) {
+    this.instanceId =
+      configService.get<string>('INSTANCE_ID') ||
+      `${hostname()}-${process.pid}`;
+    this.enabled = configService.get<string>('LEADER_ELECTION') !== 'false';
+    this.leaseTtl = Number(configService.get('LEADER_LEASE_TTL_MS') ?? 30000);
+    this.renewInterval = Number(
+      configService.get('LEADER_RENEW_INTERVAL_MS') ?? this.leaseTtl / 3,
+    );
+  }
+
+  async onApplicationBootstrap() {
+    this.isStopped = false;
+
+    if (!this.enabled) {
+      this.logger.log(`Leader election disabled, ${this.instanceId} leads`);
+      this.setLeader(true);
+      return;
+    }
+
+    await this.campaign();
+  }
+
+  async onApplicationShutdown() {
+    this.isStopped = true;
+    if (this.renewTimer) clearTimeout(this.renewTimer);
+    this.renewTimer = null;
+
+    if (!this.enabled || !this.isLeader) return;
+
+    this.stepDown();
+    try {
+      await this.leaseRepo.release(INGEST_LEASE, this.instanceId);
+      this.logger.log('Released leader lease');
+    } catch (err) {
+      this.logger.error('Failed to release leader lease', err);
+    }
+  }
+
+  get isLeader(): boolean {
+    return this.leader.value;
+  }
+
+  /** Emits the current leadership on subscribe, then every change. */
+  get leadership$(): Observable<boolean> {
+    return this.leader.pipe(distinctUntilChanged());
+  }
+
+  async getStatus() {
+    const lease = this.enabled ? await this.leaseRepo.get(INGEST_LEASE) : null;
+
+    return {
+      InstanceId: this.instanceId,
+      IsLeader: this.isLeader,
+      LeaderSince: this.leaderSince,
+      ElectionEnabled: this.enabled,
+      Leader: lease && lease.ExpiresAt > new Date() ? lease.Holder : null,
+      LeaseExpiresAt: lease?.ExpiresAt ?? null,
+    };
+  }
+
+  /** One attempt to take / renew the lease, then schedule the next one. */
+  async campaign(): Promise<void> {
+    // measured before the request: the lease stored in Mongo ends later
+    const deadline = Date.now() + this.leaseTtl;
+
+    try {
+      // no campaign before the unique index exists: two instances could
+      // both upsert a lease and lead
+      if (!this.indexesReady) {
+        await this.leaseRepo.ensureIndexes();
+        this.indexesReady = true;
+      }
+
+      const acquired = await this.leaseRepo.tryAcquire(
+        INGEST_LEASE,
+        this.instanceId,
+        this.leaseTtl,
+      );
+      if (this.isStopped) return;
+
+      if (acquired) this.holdUntil(deadline);
+      else this.stepDown();
+    } catch (err) {
+      // keep leading until the lease we hold runs out (expiryTimer)
+      this.logger.error('Failed to renew leader lease', err);
+    }
+
+    this.scheduleCampaign();
+  }
+
+  private scheduleCampaign() {
+    if (this.isStopped) return;
+
+    this.renewTimer = setTimeout(
+      () => void this.campaign(),
+      this.renewInterval,
+    );
+  }
+
+  private holdUntil(deadline: number) {
+    if (this.expiryTimer) clearTimeout(this.expiryTimer);
+    this.expiryTimer = setTimeout(() => {
+      this.logger.warn('Leader lease expired before it could be renewed');
+      this.stepDown();
+    }, deadline - Date.now());
+
+    this.setLeader(true);
+  }
+
+  private stepDown() {
+    if (this.expiryTimer) clearTimeout(this.expiryTimer);
+    this.expiryTimer = null;
+
+    this.setLeader(false);
+  }
+
+  private setLeader(isLeader: boolean) {
+    if (isLeader === this.isLeader) return;
+
+    this.leaderSince = isLeader ? new Date() : null;
+    if (isLeader)
+      this.logger.log(`${this.instanceId} is now the ingest leader`);
+    else this.logger.warn(`${this.instanceId} is no longer the ingest leader`);
+
+    this.leader.next(isLeader);
+  }
+}
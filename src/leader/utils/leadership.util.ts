@@ -0,0 +1,19 @@
+import { filter, pairwise, Subscription } from 'rxjs';
+import { LeaderElectionService } from '../services/leader-election.service';
+
+/**
+ * Run `onLost` each time this instance stops being the ingest leader.
+ * Live state kept in memory by the leader goes stale from then on: the new
+ * leader writes fresher data to Mongo.
+ */
+export function onLeadershipLost(
+  leaderService: LeaderElectionService,
+  onLost: () => void,
+): Subscription {
+  return leaderService.leadership$
+    .pipe(
+      pairwise(),
+      filter(([wasLeader, isLeader]) => wasLeader && !isLeader),
+    )
+    .subscribe(() => onLost());
+}
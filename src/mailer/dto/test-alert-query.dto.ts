@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, MaxLength } from 'class-validator';
+
+export class TestAlertQueryDto {
+  @ApiPropertyOptional({ default: 'Test Alert' })
+  @IsString()
+  @MaxLength(200)
+  subject: string = 'Test Alert';
+
+  @ApiPropertyOptional({ default: 'This is a test alert message' })
+  @IsString()
+  @MaxLength(2000)
+  message: string = 'This is a test alert message';
+}
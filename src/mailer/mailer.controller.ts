@@ -1,18 +1,18 @@
 import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
 import { AlertService } from './alert.service';
+import { TestAlertQueryDto } from './dto/test-alert-query.dto';
 
+@ApiTags('mailer')
 @Controller('mailer')
 export class MailerController {
   constructor(private readonly alertService: AlertService) {}
 
   /**
-   * GET /alert/test?subject=Hello&message=Test123
+   * GET /mailer/test?subject=Hello&message=Test123
    */
   @Get('test')
-  async testAlert(
-    @Query('subject') subject: string = 'Test Alert',
-    @Query('message') message: string = 'This is a test alert message',
-  ) {
+  async testAlert(@Query() { subject, message }: TestAlertQueryDto) {
     await this.alertService.sendError(subject, message);
     return {
       success: true,
@@ -1,10 +1,41 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { ConfigService } from '@nestjs/config';
+import { WsAdapter } from '@nestjs/platform-ws';
+import { DocumentBuilder, getSchemaPath, SwaggerModule } from '@nestjs/swagger';
+import { parseQuoteGatewayMessage } from './quote/gateways/quote.gateway';
+import { configureHttpApp } from './common/utils/http-app.util';
+import { ErrorResponseDto } from './common/dto/error-response.dto';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
   const configService = app.get(ConfigService);
+  // lets the quote ingestion pipeline drain on SIGTERM
+  app.enableShutdownHooks();
+  app.useWebSocketAdapter(
+    new WsAdapter(app, { messageParser: parseQuoteGatewayMessage }),
+  );
+
+  configureHttpApp(app);
+
+  // OpenAPI document at /docs (UI) and /docs-json
+  const errorResponse = { $ref: getSchemaPath(ErrorResponseDto) };
+  const openApiConfig = new DocumentBuilder()
+    .setTitle('Realtime stock data service')
+    .setDescription('Quotes, order books, candles and market data from DNSE')
+    .setVersion('0.0.1')
+    .addApiKey({ type: 'apiKey', in: 'header', name: 'X-Api-Key' }, 'api-key')
+    .addGlobalResponse(
+      { status: 400, description: 'Invalid request', schema: errorResponse },
+      { status: 500, description: 'Unexpected error', schema: errorResponse },
+    )
+    .build();
+  SwaggerModule.setup('docs', app, () =>
+    SwaggerModule.createDocument(app, openApiConfig, {
+      extraModels: [ErrorResponseDto],
+    }),
+  );
+
   await app.listen(configService.get<number>('APP_PORT') ?? 8080);
 }
 bootstrap();
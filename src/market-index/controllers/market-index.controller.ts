@@ -0,0 +1,34 @@
+import { Controller, Get, NotFoundException, Query } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { MarketIndexService } from '../services/market-index.service';
+import {
+  MarketIndexesQueryDto,
+  MarketIndexQueryDto,
+} from '../dto/market-index-query.dto';
+
+@ApiTags('market indexes')
+@Controller()
+export class MarketIndexController {
+  constructor(private readonly marketIndexService: MarketIndexService) {}
+
+  /**
+   * GET /marketindex?Index=VNINDEX
+   */
+  @Get('marketindex')
+  async getMarketIndex(@Query() { Index }: MarketIndexQueryDto) {
+    const index = await this.marketIndexService.getByIndexCode(Index);
+    if (!index) throw new NotFoundException(`Index ${Index} not found`);
+
+    return index;
+  }
+
+  /**
+   * GET /marketindexes?Market_ID=HOSE
+   */
+  @Get('marketindexes')
+  async getMarketIndexes(@Query() { Market_ID }: MarketIndexesQueryDto) {
+    const items = await this.marketIndexService.getAll(Market_ID);
+
+    return { TotalItems: items.length, Data: items };
+  }
+}
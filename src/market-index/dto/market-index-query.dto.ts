@@ -0,0 +1,17 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { MARKET } from 'src/quote/enums/market-code.enum';
+
+export class MarketIndexQueryDto {
+  @ApiProperty({ example: 'VNINDEX' })
+  @IsString()
+  @IsNotEmpty({ message: 'Index is required' })
+  Index: string;
+}
+
+export class MarketIndexesQueryDto {
+  @ApiPropertyOptional({ enum: MARKET })
+  @IsOptional()
+  @IsIn(Object.values(MARKET))
+  Market_ID?: string;
+}
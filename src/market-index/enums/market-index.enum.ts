@@ -0,0 +1,19 @@
+export enum MARKET_INDEX {
+  VNINDEX = 'VNINDEX',
+  VN30 = 'VN30',
+  HNX_INDEX = 'HNXIndex',
+  HNX30 = 'HNX30',
+  UPCOM_INDEX = 'HNXUpcomIndex',
+}
+
+/** Other names clients use for the same index (upper case). */
+export const marketIndexAliases: Record<string, MARKET_INDEX> = {
+  'VN-INDEX': MARKET_INDEX.VNINDEX,
+  HNX: MARKET_INDEX.HNX_INDEX,
+  'HNX-INDEX': MARKET_INDEX.HNX_INDEX,
+  HNXINDEX: MARKET_INDEX.HNX_INDEX,
+  UPCOM: MARKET_INDEX.UPCOM_INDEX,
+  'UPCOM-INDEX': MARKET_INDEX.UPCOM_INDEX,
+  UPCOMINDEX: MARKET_INDEX.UPCOM_INDEX,
+  HNXUPCOMINDEX: MARKET_INDEX.UPCOM_INDEX,
+};
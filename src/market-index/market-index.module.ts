@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { LeaderModule } from 'src/leader/leader.module';
+import { MarketIndex, MarketIndexSchema } from './schemas/market-index.schema';
+import { MarketIndexService } from './services/market-index.service';
+import { MarketIndexRepository } from './repositories/market-index.repository';
+import { MarketIndexController } from './controllers/market-index.controller';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: MarketIndex.name, schema: MarketIndexSchema },
+    ]),
+    LeaderModule,
+  ],
+  providers: [MarketIndexService, MarketIndexRepository],
+  exports: [MarketIndexService],
+  controllers: [MarketIndexController],
+})
+export class MarketIndexModule {}
@@ -0,0 +1,34 @@
+import { Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { MarketIndex } from '../schemas/market-index.schema';
+
+@Injectable()
+export class MarketIndexRepository {
+  constructor(
+    @InjectModel(MarketIndex.name) private readonly model: Model<MarketIndex>,
+  ) {}
+
+  async upsert(index: MarketIndex) {
+    return this.model.updateOne(
+      { IndexCode: index.IndexCode },
+      { $set: index },
+      { upsert: true },
+    );
+  }
+
+  async getByIndexCode(code: string) {
+    return this.model
+      .findOne({ IndexCode: code })
+      .select({ _id: 0, createdAt: 0, updatedAt: 0 })
+      .lean();
+  }
+
+  async getAll(marketId?: string) {
+    return this.model
+      .find(marketId ? { MarketID: marketId } : {})
+      .sort({ IndexCode: 1 })
+      .select({ _id: 0, createdAt: 0, updatedAt: 0 })
+      .lean();
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Payload of the DNSE index topic (plaintext/quotes/krx/mdds/index/+).
+ * Only received from the feed, never stored as is.
+ */
+export interface DnseIndex {
+  indexName?: string;
+  marketId?: string;
+  transactTime?: string;
+  valueIndexes?: number;
+  priorValueIndexes?: number;
+  openIndexes?: number;
+  highestValueIndexes?: number;
+  lowestValueIndexes?: number;
+  changedValue?: number;
+  changedRatio?: number;
+  totalVolumeTraded?: number;
+  grossTradeAmount?: number;
+  fluctuationUpIssueCount?: number;
+  fluctuationDownIssueCount?: number;
+  fluctuationSteadinessIssueCount?: number;
+  fluctuationUpperLimitIssueCount?: number;
+  fluctuationLowerLimitIssueCount?: number;
+}
@@ -0,0 +1,28 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type MarketIndexDocument = HydratedDocument<MarketIndex>;
+
+@Schema({ timestamps: true, versionKey: false })
+export class MarketIndex {
+  @Prop({ required: true, unique: true }) IndexCode: string;
+  @Prop() MarketID?: string;
+  @Prop() TradingDate?: Date;
+  @Prop() IndexValue?: number;
+  @Prop() PriorIndexValue?: number;
+  @Prop() OpenIndexValue?: number;
+  @Prop() HighestIndexValue?: number;
+  @Prop() LowestIndexValue?: number;
+  @Prop() Change?: number;
+  @Prop() ChangeRatio?: number;
+  @Prop() TotalVol?: number;
+  @Prop() TotalVal?: number;
+  // market breadth of the index basket
+  @Prop() Advances?: number;
+  @Prop() Declines?: number;
+  @Prop() NoChanges?: number;
+  @Prop() Ceilings?: number;
+  @Prop() Floors?: number;
+}
+
+export const MarketIndexSchema = SchemaFactory.createForClass(MarketIndex);
@@ -0,0 +1,104 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MarketIndexService } from './market-index.service';
+import { MarketIndexRepository } from '../repositories/market-index.repository';
+import { DnseIndex } from '../schemas/dnse-index.schema';
+import { BehaviorSubject } from 'rxjs';
+import { LeaderElectionService } from 'src/leader/services/leader-election.service';
+
+describe('MarketIndexService Unit Tests', () => {
+  let service: MarketIndexService;
+
+  const mockRepo = {
+    upsert: jest.fn().mockResolvedValue({}),
+    getByIndexCode: jest.fn().mockResolvedValue(null),
+    getAll: jest.fn().mockResolvedValue([]),
+  };
+  const leadership = new BehaviorSubject(true);
+  const mockLeader = { leadership$: leadership };
+
+  const vnIndex: DnseIndex = {
+    indexName: 'VNINDEX',
+    marketId: 'MARKET_ID_STO',
+    transactTime: '2025-06-02T02:30:00.000Z',
+    valueIndexes: 1300.5,
+    totalVolumeTraded: 1000000,
+    fluctuationUpIssueCount: 200,
+    fluctuationDownIssueCount: 150,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MarketIndexService,
+        { provide: MarketIndexRepository, useValue: mockRepo },
+        { provide: LeaderElectionService, useValue: mockLeader },
+      ],
+    }).compile();
+
+    service = module.get<MarketIndexService>(MarketIndexService);
+  });
+
+  afterEach(() => {
+    leadership.next(true);
+    jest.clearAllMocks();
+  });
+
+  // ============================
+  // 1. Bỏ qua tin nhắn chỉ đổi thời gian
+  // ============================
+  it('should skip a message whose only change is its time', async () => {
+    await service.saveIndex(vnIndex);
+    await service.saveIndex({
+      ...vnIndex,
+      transactTime: '2025-06-02T02:30:05.000Z',
+    });
+
+    expect(mockRepo.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  // ============================
+  // 2. Ghi khi field khác IndexValue / TotalVol đổi
+  // ============================
+  it('should save when breadth changes with the same value and volume', async () => {
+    await service.saveIndex(vnIndex);
+    await service.saveIndex({ ...vnIndex, fluctuationUpIssueCount: 201 });
+
+    expect(mockRepo.upsert).toHaveBeenCalledTimes(2);
+    expect(mockRepo.upsert).toHaveBeenLastCalledWith(
+      expect.objectContaining({ IndexCode: 'VNINDEX', Advances: 201 }),
+    );
+    expect((await service.getByIndexCode('vn-index'))?.Advances).toBe(201);
+  });
+
+  // ============================
+  // 3. Tin nhắn lỗi / Mongo lỗi không làm reject
+  // ============================
+  it('should not reject on a message without indexName or a failing write', async () => {
+    await expect(
+      service.saveIndex({ ...vnIndex, indexName: undefined }),
+    ).resolves.toBeUndefined();
+
+    mockRepo.upsert.mockRejectedValueOnce(new Error('mongo down'));
+    await expect(service.saveIndex(vnIndex)).resolves.toBeUndefined();
+    expect(mockRepo.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  // ============================
+  // 4. Mất quyền leader: đọc chỉ số từ Mongo
+  // ============================
+  it('should read indexes from Mongo once demoted', async () => {
+    service.onModuleInit();
+    await service.saveIndex(vnIndex);
+    expect((await service.getByIndexCode('VNINDEX'))?.IndexValue).toBe(1300.5);
+
+    mockRepo.getByIndexCode.mockResolvedValueOnce({
+      IndexCode: 'VNINDEX',
+      IndexValue: 1302,
+    });
+    leadership.next(false);
+
+    expect((await service.getByIndexCode('VNINDEX'))?.IndexValue).toBe(1302);
+    expect(mockRepo.getByIndexCode).toHaveBeenCalledWith('VNINDEX');
+    service.onModuleDestroy();
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { LeaderElectionService } from 'src/leader/services/leader-election.service';
+import { onLeadershipLost } from 'src/leader/utils/leadership.util';
+import { marketMap } from 'src/quote/map/quote.map';
+import { DnseIndex } from '../schemas/dnse-index.schema';
+import { MarketIndex } from '../schemas/market-index.schema';
+import { MarketIndexRepository } from '../repositories/market-index.repository';
+import { MARKET_INDEX, marketIndexAliases } from '../enums/market-index.enum';
+import { diffFields } from 'src/quote/utils/quote-diff.util';
+
+@Injectable()
+export class MarketIndexService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MarketIndexService.name);
+
+  // latest value per index while this instance leads
+  private indexes = new Map<string, MarketIndex>();
+  private subscription: Subscription | null = null;
+
+  constructor(
+    private readonly marketIndexRepo: MarketIndexRepository,
+    private readonly leaderService: LeaderElectionService,
+  ) {}
+
+  onModuleInit() {
+    // a demoted replica must read what the new leader writes
+    this.subscription = onLeadershipLost(this.leaderService, () =>
+      this.indexes.clear(),
+    );
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  mapIndex(data: DnseIndex): MarketIndex | null {
+    if (!data.indexName) return null;
+
+    return {
+      IndexCode: data.indexName,
+      MarketID: data.marketId
+        ? (marketMap[data.marketId] ?? data.marketId)
+        : undefined,
+      TradingDate: data.transactTime ? new Date(data.transactTime) : new Date(),
+      IndexValue: data.valueIndexes,
+      PriorIndexValue: data.priorValueIndexes,
+      OpenIndexValue: data.openIndexes,
+      HighestIndexValue: data.highestValueIndexes,
+      LowestIndexValue: data.lowestValueIndexes,
+      Change: data.changedValue,
+      ChangeRatio: data.changedRatio,
+      TotalVol: data.totalVolumeTraded,
+      TotalVal: data.grossTradeAmount,
+      Advances: data.fluctuationUpIssueCount,
+      Declines: data.fluctuationDownIssueCount,
+      NoChanges: data.fluctuationSteadinessIssueCount,
+      Ceilings: data.fluctuationUpperLimitIssueCount,
+      Floors: data.fluctuationLowerLimitIssueCount,
+    };
+  }
+
+  /**
+   * Save an index message if any of its values changed (the time alone is
+   * no news). Called fire-and-forget from the MQTT handler: never rejects.
+   */
+  async saveIndex(data: DnseIndex): Promise<void> {
+    const index = this.mapIndex(data);
+    if (!index) {
+      this.logger.warn('Index message without indexName, skipped');
+      return;
+    }
+
+    const previous = this.indexes.get(index.IndexCode);
+    if (
+      previous &&
+      diffFields(previous, index).every((c) => c.field === 'TradingDate')
+    )
+      return;
+
+    this.indexes.set(index.IndexCode, index);
+
+    try {
+      await this.marketIndexRepo.upsert(index);
+    } catch (err) {
+      this.logger.error(`Failed to save market index ${index.IndexCode}`, err);
+    }
+  }
+
+  /** Accepts the feed name or a common alias, e.g. "HNX-Index". */
+  resolveIndexCode(code: string): string {
+    const upper = code.trim().toUpperCase();
+
+    return (
+      marketIndexAliases[upper] ??
+      Object.values(MARKET_INDEX).find((i) => i.toUpperCase() === upper) ??
+      code.trim()
+    );
+  }
+
+  async getByIndexCode(code: string) {
+    const indexCode = this.resolveIndexCode(code);
+
+    const index = this.indexes.get(indexCode);
+    if (index) return index;
+
+    return this.marketIndexRepo.getByIndexCode(indexCode);
+  }
+
+  async getAll(marketId?: string) {
+    return this.marketIndexRepo.getAll(marketId);
+  }
+}
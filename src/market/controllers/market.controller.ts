@@ -0,0 +1,45 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { MarketService } from '../services/market.service';
+import {
+  BreadthQueryDto,
+  MarketStatusQueryDto,
+  MoversQueryDto,
+} from '../dto/market-query.dto';
+
+@ApiTags('market')
+@Controller('market')
+export class MarketController {
+  constructor(private readonly marketService: MarketService) {}
+
+  /**
+   * GET /market/movers?Market_ID=HOSE&type=gainers|losers|volume|value&limit=20
+   */
+  @Get('movers')
+  async getMovers(@Query() query: MoversQueryDto) {
+    return this.marketService.getMovers({
+      marketId: query.Market_ID,
+      type: query.type,
+      limit: query.limit,
+    });
+  }
+
+  /**
+   * GET /market/breadth?Market_ID=HOSE
+   * Every market when Market_ID is omitted.
+   */
+  @Get('breadth')
+  async getBreadth(@Query() { Market_ID }: BreadthQueryDto) {
+    return this.marketService.getBreadth(Market_ID);
+  }
+
+  /**
+   * GET /market/status?Market_ID=HOSE
+   * Session phase, next transition and feed liveness, every market when
+   * Market_ID is omitted.
+   */
+  @Get('status')
+  async getStatus(@Query() { Market_ID }: MarketStatusQueryDto) {
+    return this.marketService.getStatus(Market_ID);
+  }
+}
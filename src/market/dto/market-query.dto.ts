@@ -0,0 +1,42 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsEnum, IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { MARKET } from 'src/quote/enums/market-code.enum';
+import { MOVER_TYPE } from '../enums/mover-type.enum';
+
+export class MoversQueryDto {
+  @ApiPropertyOptional({ enum: MARKET, default: MARKET.MARKET_ID_STO })
+  @IsIn(Object.values(MARKET))
+  Market_ID: string = MARKET.MARKET_ID_STO;
+
+  @ApiPropertyOptional({ enum: MOVER_TYPE, default: MOVER_TYPE.GAINERS })
+  @IsEnum(MOVER_TYPE)
+  type: MOVER_TYPE = MOVER_TYPE.GAINERS;
+
+  @ApiPropertyOptional({ default: 20, minimum: 1, maximum: 100 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit: number = 20;
+}
+
+export class BreadthQueryDto {
+  @ApiPropertyOptional({
+    enum: MARKET,
+    description: 'Every market by default',
+  })
+  @IsOptional()
+  @IsIn(Object.values(MARKET))
+  Market_ID?: string;
+}
+
+export class MarketStatusQueryDto {
+  @ApiPropertyOptional({
+    enum: MARKET,
+    description: 'Every market by default',
+  })
+  @IsOptional()
+  @IsIn(Object.values(MARKET))
+  Market_ID?: string;
+}
@@ -0,0 +1,6 @@
+export enum MOVER_TYPE {
+  GAINERS = 'gainers',
+  LOSERS = 'losers',
+  VOLUME = 'volume',
+  VALUE = 'value',
+}
@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  MainQuote,
+  MainQuoteSchema,
+} from 'src/quote/schemas/main-quote.schema';
+import { MarketService } from './services/market.service';
+import { MarketRepository } from './repositories/market.repository';
+import { MarketController } from './controllers/market.controller';
+import {
+  DnseQuote,
+  DnseQuoteSchema,
+} from 'src/quote/schemas/dnse-quote.schema';
+import {
+  FuturesQuote,
+  FuturesQuoteSchema,
+} from 'src/derivative/schemas/futures-quote.schema';
+import { CalendarModule } from 'src/calendar/calendar.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: MainQuote.name, schema: MainQuoteSchema },
+      { name: DnseQuote.name, schema: DnseQuoteSchema },
+      { name: FuturesQuote.name, schema: FuturesQuoteSchema },
+    ]),
+    CalendarModule,
+  ],
+  providers: [MarketService, MarketRepository],
+  controllers: [MarketController],
+})
+export class MarketModule {}
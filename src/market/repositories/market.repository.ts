@@ -0,0 +1,207 @@
+import { FilterQuery, Model, SortOrder } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { MainQuote } from 'src/quote/schemas/main-quote.schema';
+import { DnseQuote } from 'src/quote/schemas/dnse-quote.schema';
+import { FuturesQuote } from 'src/derivative/schemas/futures-quote.schema';
+import { MOVER_TYPE } from '../enums/mover-type.enum';
+import { HALTED_SECURITY_STATUSES } from '../utils/market-status.util';
+import { getTradingDateBounds } from 'src/quote/utils/vn-date.util';
+
+export interface MarketBreadth {
+  MarketID: string;
+  Advances: number;
+  Declines: number;
+  NoChange: number;
+  Ceiling: number;
+  Floor: number;
+  TotalVol: number;
+  TotalVal: number;
+}
+
+/**
+ * Latest state reported by the feed for one market (raw marketId for
+ * stocks, MarketID as mapped for futures).
+ */
+export interface MarketFeedState {
+  marketId: string;
+  lastUpdate: Date;
+  tradingSessionId?: string;
+  symbols: number;
+  haltedSymbols: number;
+}
+
+const moverQueries: Record<
+  MOVER_TYPE,
+  { filter: FilterQuery<MainQuote>; sort: Record<string, SortOrder> }
+> = {
+  [MOVER_TYPE.GAINERS]: {
+    filter: { ChangeRatio: { $gt: 0 } },
+    sort: { ChangeRatio: -1 },
+  },
+  [MOVER_TYPE.LOSERS]: {
+    filter: { ChangeRatio: { $lt: 0 } },
+    sort: { ChangeRatio: 1 },
+  },
+  [MOVER_TYPE.VOLUME]: {
+    filter: { TotalVol: { $gt: 0 } },
+    sort: { TotalVol: -1 },
+  },
+  [MOVER_TYPE.VALUE]: {
+    filter: { TotalVal: { $gt: 0 } },
+    sort: { TotalVal: -1 },
+  },
+};
+
+const countIf = (condition: object) => ({
+  $sum: { $cond: [condition, 1, 0] },
+});
+
+@Injectable()
+export class MarketRepository {
+  constructor(
+    @InjectModel(MainQuote.name) private readonly model: Model<MainQuote>,
+    @InjectModel(DnseQuote.name)
+    private readonly dnseQuoteModel: Model<DnseQuote>,
+    @InjectModel(FuturesQuote.name)
+    private readonly futuresModel: Model<FuturesQuote>,
+  ) {}
+
+  /**
+   * Quotes of `tradingDate` (YYYY-MM-DD) only: symbols that did not trade
+   * keep older data.
+   */
+  async getMovers(query: {
+    marketId: string;
+    type: MOVER_TYPE;
+    limit: number;
+    tradingDate: string;
+  }) {
+    const { filter, sort } = moverQueries[query.type];
+    const { start, end } = getTradingDateBounds(query.tradingDate);
+
+    return this.model
+      .find({
+        MarketID: query.marketId,
+        TradingDate: { $gte: start, $lt: end },
+        ...filter,
+      })
+      .sort({ ...sort, StockCode: 1 })
+      .limit(query.limit)
+      .select({ _id: 0, createdAt: 0, updatedAt: 0 })
+      .lean();
+  }
+
+  /**
+   * Advancers / decliners / unchanged and symbols at ceiling / floor,
+   * per market. Symbols without a match price on `tradingDate`
+   * (YYYY-MM-DD) are not counted.
+   */
+  async getBreadth(
+    tradingDate: string,
+    marketId?: string,
+  ): Promise<MarketBreadth[]> {
+    const { start, end } = getTradingDateBounds(tradingDate);
+
+    return this.model.aggregate<MarketBreadth>([
+      {
+        $match: {
+          TradingDate: { $gte: start, $lt: end },
+          LastPrice: { $gt: 0 },
+          ...(marketId && { MarketID: marketId }),
+        },
+      },
+      {
+        $group: {
+          _id: '$MarketID',
+          Advances: countIf({ $gt: ['$Change', 0] }),
+          Declines: countIf({ $lt: ['$Change', 0] }),
+          NoChange: countIf({ $eq: ['$Change', 0] }),
+          Ceiling: countIf({ $eq: ['$LastPrice', '$CeilingPrice'] }),
+          Floor: countIf({ $eq: ['$LastPrice', '$FloorPrice'] }),
+          TotalVol: { $sum: '$TotalVol' },
+          TotalVal: { $sum: '$TotalVal' },
+        },
+      },
+      {
+        $project: {
+          _id: 0,
+          MarketID: '$_id',
+          Advances: 1,
+          Declines: 1,
+          NoChange: 1,
+          Ceiling: 1,
+          Floor: 1,
+          TotalVol: 1,
+          TotalVal: 1,
+        },
+      },
+      { $sort: { MarketID: 1 } },
+    ]);
+  }
+
+  /**
+   * Per market, over quotes updated since `since`: last write time, the
+   * session carried by the most recent message and how many symbols the
+   * feed reports as halted.
+   */
+  async getFeedStates(since: Date): Promise<MarketFeedState[]> {
+    return this.dnseQuoteModel.aggregate<MarketFeedState>([
+      { $match: { updatedAt: { $gte: since }, marketId: { $ne: null } } },
+      { $sort: { tradingTime: -1 } },
+      {
+        $group: {
+          _id: '$marketId',
+          lastUpdate: { $max: '$updatedAt' },
+          tradingSessionId: { $first: '$tradingSessionId' },
+          symbols: { $sum: 1 },
+          haltedSymbols: countIf({
+            $in: [
+              { $toUpper: { $trim: { input: '$securityStatus' } } },
+              HALTED_SECURITY_STATUSES,
+            ],
+          }),
+        },
+      },
+      {
+        $project: {
+          _id: 0,
+          marketId: '$_id',
+          lastUpdate: 1,
+          tradingSessionId: 1,
+          symbols: 1,
+          haltedSymbols: 1,
+        },
+      },
+    ]);
+  }
+
+  /**
+   * Same as getFeedStates for futures: they are saved by DerivativeService
+   * and never reach DnseQuote. No security status is kept for them.
+   */
+  async getFuturesFeedStates(since: Date): Promise<MarketFeedState[]> {
+    return this.futuresModel.aggregate<MarketFeedState>([
+      { $match: { updatedAt: { $gte: since }, MarketID: { $ne: null } } },
+      { $sort: { TradingDate: -1 } },
+      {
+        $group: {
+          _id: '$MarketID',
+          lastUpdate: { $max: '$updatedAt' },
+          tradingSessionId: { $first: '$TradingSessionId' },
+          symbols: { $sum: 1 },
+        },
+      },
+      {
+        $project: {
+          _id: 0,
+          marketId: '$_id',
+          lastUpdate: 1,
+          tradingSessionId: 1,
+          symbols: 1,
+          haltedSymbols: { $literal: 0 },
+        },
+      },
+    ]);
+  }
+}
@@ -0,0 +1,196 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { MarketService } from './market.service';
+import { MarketRepository } from '../repositories/market.repository';
+import { TradingCalendarService } from 'src/calendar/services/trading-calendar.service';
+import { MARKET_PHASE } from 'src/calendar/enums/market-phase.enum';
+import { MARKET } from 'src/quote/enums/market-code.enum';
+import { MOVER_TYPE } from '../enums/mover-type.enum';
+
+describe('MarketService Unit Tests', () => {
+  let service: MarketService;
+  let warn: jest.SpyInstance;
+
+  const mockRepo = {
+    getFeedStates: jest.fn(),
+    getFuturesFeedStates: jest.fn().mockResolvedValue([]),
+    getMovers: jest.fn().mockResolvedValue([]),
+    getBreadth: jest.fn().mockResolvedValue([]),
+  };
+  const config: Record<string, string> = {
+    MARKET_SESSION_PHASES: 'LO=CONTINUOUS, ATC=ATC',
+  };
+
+  beforeEach(async () => {
+    // thứ Năm 02/01/2025, 09:05 giờ Việt Nam: HOSE đang ATO
+    jest.useFakeTimers().setSystemTime(new Date('2025-01-02T09:05:00+07:00'));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MarketService,
+        TradingCalendarService,
+        { provide: MarketRepository, useValue: mockRepo },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MarketService>(MarketService);
+    warn = jest.spyOn(service['logger'], 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  // ============================
+  // 1. Feed im lặng: dùng lịch giao dịch
+  // ============================
+  it('should report the scheduled phase when the feed is silent', async () => {
+    mockRepo.getFeedStates.mockResolvedValue([]);
+
+    const { Data } = await service.getStatus(MARKET.MARKET_ID_STO);
+
+    expect(mockRepo.getFeedStates).toHaveBeenCalledWith(
+      new Date('2025-01-02T00:00:00+07:00'),
+    );
+    expect(Data).toEqual([
+      expect.objectContaining({
+        Market_ID: MARKET.MARKET_ID_STO,
+        Phase: MARKET_PHASE.ATO,
+        PhaseSource: 'CALENDAR',
+        NextPhase: MARKET_PHASE.CONTINUOUS,
+        NextPhaseTime: new Date('2025-01-02T09:15:00+07:00'),
+        FeedLive: false,
+        Halted: false,
+      }),
+    ]);
+  });
+
+  // ============================
+  // 2. Feed đang chạy: ưu tiên phiên do sàn gửi
+  // ============================
+  it('should follow the session reported by a live feed', async () => {
+    mockRepo.getFeedStates.mockResolvedValue([
+      {
+        marketId: 'MARKET_ID_STO',
+        lastUpdate: new Date('2025-01-02T09:04:50+07:00'),
+        tradingSessionId: 'lo',
+        symbols: 3,
+        haltedSymbols: 1,
+      },
+      {
+        marketId: 'MARKET_ID_STX',
+        lastUpdate: new Date('2025-01-02T09:04:55+07:00'),
+        tradingSessionId: 'LO',
+        symbols: 2,
+        haltedSymbols: 2,
+      },
+    ]);
+
+    const { Data } = await service.getStatus();
+    const [hose, hnx] = Data;
+
+    expect(Data).toHaveLength(4);
+    expect(hose).toMatchObject({
+      Phase: MARKET_PHASE.CONTINUOUS,
+      PhaseSource: 'FEED',
+      ScheduledPhase: MARKET_PHASE.ATO,
+      FeedLive: true,
+      HaltedSymbols: 1,
+      Halted: false,
+    });
+    expect(hnx).toMatchObject({ FeedLive: true, Halted: true });
+  });
+
+  // ============================
+  // 3. Mã phiên chưa cấu hình: giữ lịch, cảnh báo một lần
+  // ============================
+  it('should keep the calendar phase for an unmapped session id', async () => {
+    mockRepo.getFeedStates.mockResolvedValue([
+      {
+        marketId: 'MARKET_ID_STO',
+        lastUpdate: new Date('2025-01-02T09:04:50+07:00'),
+        tradingSessionId: '99',
+        symbols: 3,
+        haltedSymbols: 0,
+      },
+    ]);
+
+    await service.getStatus(MARKET.MARKET_ID_STO);
+    const { Data } = await service.getStatus(MARKET.MARKET_ID_STO);
+
+    expect(Data[0]).toMatchObject({
+      Phase: MARKET_PHASE.ATO,
+      PhaseSource: 'CALENDAR',
+      TradingSessionId: '99',
+      FeedLive: true,
+    });
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('"99"'));
+  });
+
+  // ============================
+  // 4. Movers / breadth chỉ tính quote của ngày giao dịch
+  // ============================
+  it('should rank movers and breadth on the current trading day only', async () => {
+    await service.getMovers({
+      marketId: MARKET.MARKET_ID_STO,
+      type: MOVER_TYPE.GAINERS,
+      limit: 10,
+    });
+    await service.getBreadth(MARKET.MARKET_ID_STO);
+
+    expect(mockRepo.getMovers).toHaveBeenCalledWith(
+      expect.objectContaining({ tradingDate: '2025-01-02' }),
+    );
+    expect(mockRepo.getBreadth).toHaveBeenCalledWith(
+      '2025-01-02',
+      MARKET.MARKET_ID_STO,
+    );
+
+    // Chủ Nhật: vẫn là phiên thứ Sáu
+    jest.setSystemTime(new Date('2025-01-05T10:00:00+07:00'));
+    await service.getBreadth();
+
+    expect(mockRepo.getBreadth).toHaveBeenLastCalledWith(
+      '2025-01-03',
+      undefined,
+    );
+  });
+
+  // ============================
+  // 5. Phái sinh: feed lấy từ hợp đồng tương lai
+  // ============================
+  it('should report a live derivatives feed from the futures quotes', async () => {
+    // 09:05: phái sinh đang khớp lệnh liên tục từ 09:00
+    mockRepo.getFeedStates.mockResolvedValue([]);
+    mockRepo.getFuturesFeedStates.mockResolvedValue([
+      {
+        marketId: MARKET.MARKET_ID_DVX,
+        lastUpdate: new Date('2025-01-02T09:04:58+07:00'),
+        tradingSessionId: 'LO',
+        symbols: 4,
+        haltedSymbols: 0,
+      },
+    ]);
+
+    const { Data } = await service.getStatus(MARKET.MARKET_ID_DVX);
+
+    expect(mockRepo.getFuturesFeedStates).toHaveBeenCalledWith(
+      new Date('2025-01-02T00:00:00+07:00'),
+    );
+    expect(Data[0]).toMatchObject({
+      Market_ID: MARKET.MARKET_ID_DVX,
+      FeedLive: true,
+      PhaseSource: 'FEED',
+      Phase: MARKET_PHASE.CONTINUOUS,
+      LastUpdate: new Date('2025-01-02T09:04:58+07:00'),
+      Halted: false,
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  MarketFeedState,
+  MarketRepository,
+} from '../repositories/market.repository';
+import { MOVER_TYPE } from '../enums/mover-type.enum';
+import { TradingCalendarService } from 'src/calendar/services/trading-calendar.service';
+import { marketMap } from 'src/quote/map/quote.map';
+import { formatVnDate, getVnDayStart } from 'src/quote/utils/vn-date.util';
+import { MARKET_PHASE } from 'src/calendar/enums/market-phase.enum';
+import {
+  normalizeSessionId,
+  parseFeedSessionPhases,
+} from '../utils/market-status.util';
+
+@Injectable()
+export class MarketService {
+  private readonly logger = new Logger(MarketService.name);
+
+  // the feed counts as live while quotes were written within this window
+  private readonly feedStaleMs: number;
+  private readonly sessionPhases: Map<string, MARKET_PHASE>;
+  // tradingSessionId values without a configured phase, logged once each
+  private readonly unknownSessions = new Set<string>();
+
+  constructor(
+    private readonly marketRepo: MarketRepository,
+    private readonly calendar: TradingCalendarService,
+    configService: ConfigService,
+  ) {
+    this.feedStaleMs = Number(
+      configService.get('MARKET_FEED_STALE_MS') ?? 60 * 1000,
+    );
+
+    const { phases, invalid } = parseFeedSessionPhases(
+      configService.get<string>('MARKET_SESSION_PHASES'),
+    );
+    this.sessionPhases = phases;
+    if (invalid.length)
+      this.logger.warn(
+        `Ignoring MARKET_SESSION_PHASES entries: ${invalid.join(', ')}`,
+      );
+  }
+
+  async getMovers(query: {
+    marketId: string;
+    type: MOVER_TYPE;
+    limit: number;
+  }) {
+    const items = await this.marketRepo.getMovers({
+      ...query,
+      tradingDate: this.getTradingDate(),
+    });
+
+    return {
+      Market_ID: query.marketId,
+      Type: query.type,
+      TotalItems: items.length,
+      Data: items,
+    };
+  }
+
+  async getBreadth(marketId?: string) {
+    const items = await this.marketRepo.getBreadth(
+      this.getTradingDate(),
+      marketId,
+    );
+
+    return { TotalItems: items.length, Data: items };
+  }
+
+  /**
+   * Current phase of each market.
+   * The phase comes from the trading calendar, unless the feed is live and
+   * its tradingSessionId maps to another phase in MARKET_SESSION_PHASES
+   * (e.g. a session extended by the exchange). The next transition is
+   * always the scheduled one.
+   */
+  async getStatus(marketId?: string) {
+    const now = Date.now();
+    const markets = marketId ? [marketId] : this.calendar.getMarkets();
+
+    const since = getVnDayStart(now);
+    const states = (
+      await Promise.all([
+        this.marketRepo.getFeedStates(since),
+        this.marketRepo.getFuturesFeedStates(since),
+      ])
+    ).flat();
+
+    // the most recent state wins if a market shows up in both collections
+    const stateByMarket = new Map<string, MarketFeedState>();
+    for (const state of states) {
+      const market = (marketMap[state.marketId] as string) ?? state.marketId;
+      const current = stateByMarket.get(market);
+      if (
+        !current ||
+        new Date(state.lastUpdate).getTime() >
+          new Date(current.lastUpdate).getTime()
+      )
+        stateByMarket.set(market, state);
+    }
+
+    const data = markets.map((market) => {
+      const state = stateByMarket.get(market);
+      const feedLive =
+        !!state &&
+        now - new Date(state.lastUpdate).getTime() <= this.feedStaleMs;
+
+      const scheduled = this.calendar.getPhase(market, now);
+      const reported = feedLive
+        ? this.resolveFeedPhase(market, state.tradingSessionId)
+        : null;
+      const next = this.calendar.getNextPhaseChange(market, now);
+
+      return {
+        Market_ID: market,
+        Phase: reported ?? scheduled,
+        PhaseSource: reported ? 'FEED' : 'CALENDAR',
+        ScheduledPhase: scheduled,
+        NextPhase: next?.phase ?? null,
+        NextPhaseTime: next?.at ?? null,
+        IsTradingDay: this.calendar.isTradingDay(now),
+        FeedLive: feedLive,
+        LastUpdate: state?.lastUpdate ?? null,
+        TradingSessionId: state?.tradingSessionId ?? null,
+        HaltedSymbols: state?.haltedSymbols ?? 0,
+        Halted: !!state && state.haltedSymbols === state.symbols,
+      };
+    });
+
+    return { Time: new Date(now), TotalItems: data.length, Data: data };
+  }
+
+  /** Current trading day, the last session on a weekend or holiday. */
+  private getTradingDate(): string {
+    return formatVnDate(this.calendar.getTradingDayStart().getTime());
+  }
+
+  private resolveFeedPhase(
+    market: string,
+    tradingSessionId?: string,
+  ): MARKET_PHASE | null {
+    const code = normalizeSessionId(tradingSessionId);
+    if (!code) return null;
+
+    const phase = this.sessionPhases.get(code);
+    if (phase) return phase;
+
+    if (!this.unknownSessions.has(code)) {
+      this.unknownSessions.add(code);
+      this.logger.warn(
+        `Unmapped tradingSessionId "${code}" from ${market}, add it to MARKET_SESSION_PHASES`,
+      );
+    }
+    return null;
+  }
+}
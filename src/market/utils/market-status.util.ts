@@ -0,0 +1,39 @@
+import { MARKET_PHASE } from 'src/calendar/enums/market-phase.enum';
+
+// securityStatus values (upper case) of a symbol whose trading is stopped
+export const HALTED_SECURITY_STATUSES = [
+  'HALT',
+  'HALTED',
+  'SUSPEND',
+  'SUSPENDED',
+];
+
+/**
+ * MARKET_SESSION_PHASES, e.g. "LO=CONTINUOUS,ATC=ATC": tradingSessionId
+ * values of the feed and the phase they stand for. There is no published
+ * list of the codes DNSE relays, so they are configured from what the feed
+ * is seen sending. Entries with an unknown phase are returned in `invalid`.
+ */
+export function parseFeedSessionPhases(raw?: string) {
+  const phases = new Map<string, MARKET_PHASE>();
+  const invalid: string[] = [];
+  const known = Object.values(MARKET_PHASE) as string[];
+
+  for (const entry of (raw ?? '').split(',')) {
+    if (!entry.trim()) continue;
+
+    const [code, phase] = entry.split('=').map((s) => s?.trim().toUpperCase());
+    if (!code || !phase || !known.includes(phase)) {
+      invalid.push(entry.trim());
+      continue;
+    }
+    phases.set(code, phase as MARKET_PHASE);
+  }
+
+  return { phases, invalid };
+}
+
+/** Normalized tradingSessionId, null when the feed sent none. */
+export function normalizeSessionId(tradingSessionId?: string): string | null {
+  return tradingSessionId?.trim().toUpperCase() || null;
+}
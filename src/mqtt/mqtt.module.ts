@@ -2,18 +2,42 @@ import { Module } from '@nestjs/common';
 import { AuthModule } from 'src/auth/auth.module';
 import { QuoteModule } from 'src/quote/quote.module';
 import { AppMailerModule } from 'src/mailer/mailer.module';
+import { CandleModule } from 'src/candle/candle.module';
+import { OrderBookModule } from 'src/orderbook/order-book.module';
+import { MarketIndexModule } from 'src/market-index/market-index.module';
+import { DerivativeModule } from 'src/derivative/derivative.module';
+import { SymbolModule } from 'src/symbol/symbol.module';
+import { LeaderModule } from 'src/leader/leader.module';
+import { CalendarModule } from 'src/calendar/calendar.module';
 import { MqttService } from './services/mqtt.service';
 import { MqttAlertService } from './services/mqtt-alert.service';
 import { MqttConnectionManager } from './services/mqtt-connection.service';
 import { MqttHealthService } from './services/mqtt-health.service';
+import { MqttMessageRouter } from './services/mqtt-message-router.service';
+import { MqttHandlersService } from './services/mqtt-handlers.service';
 
 @Module({
-  imports: [QuoteModule, AuthModule, AppMailerModule],
+  imports: [
+    QuoteModule,
+    AuthModule,
+    AppMailerModule,
+    CandleModule,
+    OrderBookModule,
+    MarketIndexModule,
+    DerivativeModule,
+    SymbolModule,
+    LeaderModule,
+    CalendarModule,
+  ],
   providers: [
+    // routes must be registered before MqttService connects on init
+    MqttHandlersService,
     MqttService,
     MqttAlertService,
     MqttConnectionManager,
     MqttHealthService,
+    MqttMessageRouter,
   ],
+  exports: [MqttConnectionManager],
 })
 export class MqttModule {}
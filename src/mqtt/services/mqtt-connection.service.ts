@@ -4,11 +4,10 @@ import { connect, MqttClient } from 'mqtt';
 import { AuthService } from 'src/auth/services/auth.service';
 import { buildMqttConnectOptions } from '../utils/mqtt-connection.util';
 import { registerMqttEvents } from '../utils/mqtt-events.util';
-import { isTradingTime } from '../utils/mqtt-session.util';
 import { MqttAlertService } from './mqtt-alert.service';
-import { QuoteService } from 'src/quote/services/quote.service';
 import { ALERT_TIME_GAP } from '../enums/alert-time-gap.enum';
-import { DnseQuote } from 'src/quote/schemas/dnse-quote.schema';
+import { MqttMessageRouter } from './mqtt-message-router.service';
+import { TradingCalendarService } from 'src/calendar/services/trading-calendar.service';
 
 @Injectable()
 export class MqttConnectionManager {
@@ -16,6 +15,10 @@ export class MqttConnectionManager {
 
   public client: MqttClient | null = null;
   private isConnecting = false;
+  // false once the session was ended: no reconnect until the next connect()
+  private isActive = false;
+  // bumped by end(), a connect() started before is abandoned
+  private sessionId = 0;
 
   private reconnectTimer: NodeJS.Timeout | null = null;
   private reconnectDelay = 5000;
@@ -30,12 +33,24 @@ export class MqttConnectionManager {
     private readonly authService: AuthService,
     private readonly configService: ConfigService,
     private readonly alertService: MqttAlertService,
-    private readonly quoteService: QuoteService,
     private readonly mqttAllertService: MqttAlertService,
+    private readonly router: MqttMessageRouter,
+    private readonly calendar: TradingCalendarService,
   ) {}
 
+  /** Connection state for health checks. */
+  getStatus() {
+    return {
+      connected: !!this.client?.connected,
+      connecting: this.isConnecting,
+      lastMessageTime: this.lastMessageTime,
+      reconnectDelay: this.reconnectDelay,
+      reconnectScheduled: !!this.reconnectTimer,
+    };
+  }
+
   async connect() {
-    if (!isTradingTime()) {
+    if (!this.calendar.isTradingTime()) {
       await this.mqttAllertService.send(
         'MQTT Connect Skipped',
         'Outside trading hours — skipping connect',
@@ -50,11 +65,20 @@ export class MqttConnectionManager {
     }
 
     this.isConnecting = true;
+    this.isActive = true;
+    const sessionId = this.sessionId;
 
     try {
       const { token, investorId } = await this.authService.getValidToken();
+
+      // end() ran while the token was fetched (e.g. leadership lost)
+      if (sessionId !== this.sessionId) {
+        this.logger.debug('Session ended while connecting, not connecting');
+        return;
+      }
+
       const brokerUrl = this.configService.get<string>('BROKER_URL');
-      const topic = this.configService.get<string>('TOPIC');
+      const topics = this.getSubscribedTopics();
 
       if (!brokerUrl) {
         await this.alertService.send(
@@ -80,11 +104,11 @@ export class MqttConnectionManager {
       // register events with message timestamp update
       registerMqttEvents(
         this.client,
-        topic ?? '',
+        topics,
         this.logger,
-        (json) => {
+        (json, topic) => {
           this.lastMessageTime = Date.now(); // update watchdog
-          void this.quoteService.saveQuoteIfChanged(json as Partial<DnseQuote>);
+          this.router.dispatch(topic, json);
         },
         () => this.scheduleReconnect(),
       );
@@ -104,18 +128,31 @@ export class MqttConnectionManager {
         ALERT_TIME_GAP.TEN_MINUTE,
       );
 
-      this.scheduleReconnect();
+      if (sessionId === this.sessionId) this.scheduleReconnect();
     } finally {
-      this.isConnecting = false;
+      if (sessionId === this.sessionId) this.isConnecting = false;
     }
   }
 
+  /**
+   * Topics to subscribe: TOPICS (comma separated, wildcards allowed) if set,
+   * otherwise the topic of every registered handler.
+   */
+  private getSubscribedTopics(): string[] {
+    const topics = (this.configService.get<string>('TOPICS') ?? '')
+      .split(',')
+      .map((topic) => topic.trim())
+      .filter(Boolean);
+
+    return topics.length ? topics : this.router.getPatterns();
+  }
+
   // ---- WATCHDOG: detect missing data ----
   private startWatchdog() {
     if (this.watchdogTimer) clearInterval(this.watchdogTimer);
 
     this.watchdogTimer = setInterval(async () => {
-      if (!isTradingTime()) return;
+      if (!this.calendar.isTradingTime()) return;
 
       const now = Date.now();
       const gap = now - this.lastMessageTime;
@@ -136,7 +173,7 @@ The broker may have stopped sending data or the TOPIC might have changed.`,
   }
 
   scheduleReconnect() {
-    if (!isTradingTime()) return;
+    if (!this.isActive || !this.calendar.isTradingTime()) return;
 
     if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
 
@@ -144,17 +181,24 @@ The broker may have stopped sending data or the TOPIC might have changed.`,
     const delay = this.reconnectDelay + jitter;
 
     this.logger.warn(`🔄 Reconnect scheduled in ${delay / 1000}s`);
-    this.reconnectTimer = setTimeout(() => void this.connect(), delay);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.connect();
+    }, delay);
 
     this.reconnectDelay = Math.min(this.reconnectDelay * 2, this.reconnectMax);
   }
 
   end() {
+    this.isActive = false;
+    this.isConnecting = false;
+    this.sessionId++;
     if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
     if (this.watchdogTimer) clearInterval(this.watchdogTimer);
     if (this.client) this.client.end(true);
 
     this.client = null;
+    this.reconnectTimer = null;
     this.reconnectDelay = 5000;
   }
 }
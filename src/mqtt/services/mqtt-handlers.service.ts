@@ -0,0 +1,103 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { QuoteIngestionService } from 'src/quote/services/quote-ingestion.service';
+import { QuoteTickService } from 'src/quote/services/quote-tick.service';
+import { QuotePutThroughService } from 'src/quote/services/quote-put-through.service';
+import { DnseQuote } from 'src/quote/schemas/dnse-quote.schema';
+import { CandleService } from 'src/candle/services/candle.service';
+import { OrderBookService } from 'src/orderbook/services/order-book.service';
+import { DnseTopPrice } from 'src/orderbook/schemas/dnse-top-price.schema';
+import { MarketIndexService } from 'src/market-index/services/market-index.service';
+import { DnseIndex } from 'src/market-index/schemas/dnse-index.schema';
+import { DerivativeService } from 'src/derivative/services/derivative.service';
+import { isFuturesQuote } from 'src/derivative/utils/futures.util';
+import { SymbolService } from 'src/symbol/services/symbol.service';
+import { MqttMessageRouter } from './mqtt-message-router.service';
+import {
+  isIndexPayload,
+  isQuotePayload,
+  isTopPricePayload,
+} from '../utils/mqtt-payload.util';
+
+/**
+ * Register the handler of every DNSE feed on the message router.
+ * Each feed topic (wildcards allowed) comes from .env.
+ */
+@Injectable()
+export class MqttHandlersService implements OnModuleInit {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly router: MqttMessageRouter,
+    private readonly quoteIngestionService: QuoteIngestionService,
+    private readonly quoteTickService: QuoteTickService,
+    private readonly quotePutThroughService: QuotePutThroughService,
+    private readonly candleService: CandleService,
+    private readonly orderBookService: OrderBookService,
+    private readonly marketIndexService: MarketIndexService,
+    private readonly derivativeService: DerivativeService,
+    private readonly symbolService: SymbolService,
+  ) {}
+
+  onModuleInit() {
+    const stockInfoTopic = this.configService.get<string>('TOPIC');
+    if (stockInfoTopic)
+      this.router.register(
+        'stockinfo',
+        stockInfoTopic,
+        (payload) => this.handleStockInfo(payload as Partial<DnseQuote>),
+        isQuotePayload,
+      );
+
+    // derivatives use the stock info payload on their own topic
+    const derivativeTopic = this.configService.get<string>('TOPIC_DERIVATIVE');
+    if (derivativeTopic)
+      this.router.register(
+        'derivative',
+        derivativeTopic,
+        (payload) => this.handleStockInfo(payload as Partial<DnseQuote>),
+        isQuotePayload,
+      );
+
+    const topPriceTopic = this.configService.get<string>('TOPIC_TOP_PRICE');
+    if (topPriceTopic)
+      this.router.register(
+        'topprice',
+        topPriceTopic,
+        (payload) =>
+          this.orderBookService.saveTopPrice(payload as DnseTopPrice),
+        isTopPricePayload,
+      );
+
+    const indexTopic = this.configService.get<string>('TOPIC_INDEX');
+    if (indexTopic)
+      this.router.register(
+        'index',
+        indexTopic,
+        (payload) => this.marketIndexService.saveIndex(payload as DnseIndex),
+        isIndexPayload,
+      );
+  }
+
+  private async handleStockInfo(quote: Partial<DnseQuote>): Promise<void> {
+    // put-through boards only feed the put-through totals,
+    // an empty quote of the symbol gets them written to MainQuote
+    if (this.quotePutThroughService.isPutThrough(quote)) {
+      this.quotePutThroughService.record(quote);
+      this.quoteIngestionService.enqueue({ symbol: quote.symbol });
+      return;
+    }
+
+    // futures are kept apart from MainQuote
+    const writes: Promise<void>[] = [];
+    if (isFuturesQuote(quote))
+      writes.push(this.derivativeService.saveFutures(quote));
+    else this.quoteIngestionService.enqueue(quote);
+
+    this.candleService.onQuote(quote);
+    writes.push(
+      this.quoteTickService.recordTick(quote),
+      this.symbolService.onQuote(quote),
+    );
+    await Promise.all(writes);
+  }
+}
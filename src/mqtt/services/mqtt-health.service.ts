@@ -1,33 +1,29 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { isTradingTime } from '../utils/mqtt-session.util';
 import { MqttAlertService } from './mqtt-alert.service';
 import { MqttConnectionManager } from './mqtt-connection.service';
 import { ALERT_TIME_GAP } from '../enums/alert-time-gap.enum';
+import { TradingCalendarService } from 'src/calendar/services/trading-calendar.service';
 
 @Injectable()
 export class MqttHealthService {
   private readonly logger = new Logger(MqttHealthService.name);
 
   private interval: NodeJS.Timeout | null = null;
-  private lastMessageTime = Date.now();
 
   constructor(
     private readonly alertService: MqttAlertService,
     private readonly conn: MqttConnectionManager,
+    private readonly calendar: TradingCalendarService,
   ) {}
 
-  markMessageReceived() {
-    this.lastMessageTime = Date.now();
-  }
-
   start() {
     if (this.interval) return;
 
     this.interval = setInterval(
       () => {
-        if (!isTradingTime()) return;
+        if (!this.calendar.isTradingTime()) return;
 
-        const diff = Date.now() - this.lastMessageTime;
+        const diff = Date.now() - this.conn.getStatus().lastMessageTime;
         if (diff > 15 * 60 * 1000) {
           void this.alertService
             .send(
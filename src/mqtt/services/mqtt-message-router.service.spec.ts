@@ -0,0 +1,99 @@
+import { MqttMessageRouter } from './mqtt-message-router.service';
+import { isQuotePayload } from '../utils/mqtt-payload.util';
+
+describe('MqttMessageRouter Unit Tests', () => {
+  let router: MqttMessageRouter;
+
+  beforeEach(() => {
+    router = new MqttMessageRouter();
+  });
+
+  // ============================
+  // 1. Định tuyến theo wildcard
+  // ============================
+  it('should dispatch by topic pattern with + and # wildcards', () => {
+    const stockInfo = jest.fn();
+    const index = jest.fn();
+
+    router.register(
+      'stockinfo',
+      'plaintext/quotes/krx/mdds/stockinfos/v1/roundlot/symbol/+',
+      stockInfo,
+    );
+    router.register('index', 'plaintext/quotes/krx/mdds/index/#', index);
+
+    router.dispatch(
+      'plaintext/quotes/krx/mdds/stockinfos/v1/roundlot/symbol/FPT',
+      { symbol: 'FPT' },
+    );
+    router.dispatch('plaintext/quotes/krx/mdds/index/VNINDEX', {});
+
+    expect(stockInfo).toHaveBeenCalledWith(
+      { symbol: 'FPT' },
+      'plaintext/quotes/krx/mdds/stockinfos/v1/roundlot/symbol/FPT',
+    );
+    expect(index).toHaveBeenCalledTimes(1);
+  });
+
+  // ============================
+  // 2. Topic không có handler
+  // ============================
+  it('should count messages on unknown topics', () => {
+    router.register('stockinfo', 'quotes/stockinfo/+', jest.fn());
+
+    expect(router.dispatch('quotes/stockinfo/FPT/extra', {})).toBe(false);
+    expect(router.dispatch('quotes/other', {})).toBe(false);
+    expect(router.dispatch('quotes/other', {})).toBe(false);
+
+    expect(router.getUnknownTopicStats()).toEqual({
+      total: 3,
+      topics: { 'quotes/stockinfo/FPT/extra': 1, 'quotes/other': 2 },
+    });
+  });
+
+  // ============================
+  // 3. Lỗi trong handler không làm hỏng router
+  // ============================
+  it('should keep routing when a handler throws', () => {
+    router.register('broken', 'quotes/#', () => {
+      throw new Error('boom');
+    });
+
+    expect(router.dispatch('quotes/FPT', {})).toBe(true);
+  });
+
+  // ============================
+  // 4. Lỗi của handler async được log, không reject
+  // ============================
+  it('should catch the rejection of an async handler', async () => {
+    const logError = jest
+      .spyOn(router['logger'], 'error')
+      .mockImplementation(() => undefined);
+    router.register('async', 'quotes/#', () =>
+      Promise.reject(new Error('boom')),
+    );
+
+    expect(router.dispatch('quotes/FPT', {})).toBe(true);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(logError).toHaveBeenCalledWith(
+      'MQTT route "async" failed on quotes/FPT',
+      expect.any(Error),
+    );
+  });
+
+  // ============================
+  // 5. Payload sai cấu trúc bị bỏ qua
+  // ============================
+  it('should drop payloads failing the route shape check', () => {
+    const handler = jest.fn();
+    router.register('stockinfo', 'quotes/+', handler, isQuotePayload);
+
+    router.dispatch('quotes/FPT', 'not json object');
+    router.dispatch('quotes/FPT', { matchPrice: 100 });
+    router.dispatch('quotes/FPT', { symbol: 'FPT' });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(router.getInvalidPayloadStats()).toEqual({ stockinfo: 2 });
+  });
+});
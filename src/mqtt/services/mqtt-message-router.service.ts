@@ -0,0 +1,102 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { matchTopic } from '../utils/mqtt-events.util';
+
+export type MqttMessageHandler = (
+  payload: unknown,
+  topic: string,
+) => void | Promise<void>;
+
+/** Shape check of a payload, run before its handler. */
+export type MqttPayloadGuard = (payload: unknown) => boolean;
+
+interface MqttRoute {
+  name: string;
+  pattern: string;
+  handler: MqttMessageHandler;
+  isValid?: MqttPayloadGuard;
+}
+
+/**
+ * Dispatch MQTT messages to the handler registered for their topic.
+ * Patterns support the `+` and `#` wildcards; the first matching route wins.
+ * Payloads failing the route's shape check are dropped, errors of sync and
+ * async handlers are logged.
+ */
+@Injectable()
+export class MqttMessageRouter {
+  private readonly logger = new Logger(MqttMessageRouter.name);
+
+  private routes: MqttRoute[] = [];
+
+  // messages received on topics no route matches, per topic
+  private unknownTopics = new Map<string, number>();
+
+  // payloads dropped by the shape check, per route
+  private invalidPayloads = new Map<string, number>();
+
+  register(
+    name: string,
+    pattern: string,
+    handler: MqttMessageHandler,
+    isValid?: MqttPayloadGuard,
+  ) {
+    this.routes.push({ name, pattern, handler, isValid });
+    this.logger.log(`Registered MQTT route "${name}" → ${pattern}`);
+  }
+
+  /** Patterns of every registered route, used as the default subscription. */
+  getPatterns(): string[] {
+    return [...new Set(this.routes.map((route) => route.pattern))];
+  }
+
+  dispatch(topic: string, payload: unknown): boolean {
+    const route = this.routes.find((r) => matchTopic(r.pattern, topic));
+
+    if (!route) {
+      const count = (this.unknownTopics.get(topic) ?? 0) + 1;
+      this.unknownTopics.set(topic, count);
+
+      // log the first message of a topic then every 1000th to avoid flooding
+      if (count === 1 || count % 1000 === 0)
+        this.logger.warn(
+          `No handler for MQTT topic ${topic} (${count} messages dropped)`,
+        );
+      return false;
+    }
+
+    if (route.isValid && !route.isValid(payload)) {
+      const count = (this.invalidPayloads.get(route.name) ?? 0) + 1;
+      this.invalidPayloads.set(route.name, count);
+
+      if (count === 1 || count % 1000 === 0)
+        this.logger.warn(
+          `Invalid payload on MQTT route "${route.name}" (${topic}, ${count} messages dropped)`,
+        );
+      return true;
+    }
+
+    try {
+      const result = route.handler(payload, topic);
+      if (result instanceof Promise)
+        result.catch((err) => this.onHandlerError(route, topic, err));
+    } catch (err) {
+      this.onHandlerError(route, topic, err);
+    }
+    return true;
+  }
+
+  getUnknownTopicStats() {
+    return {
+      total: [...this.unknownTopics.values()].reduce((a, b) => a + b, 0),
+      topics: Object.fromEntries(this.unknownTopics),
+    };
+  }
+
+  getInvalidPayloadStats() {
+    return Object.fromEntries(this.invalidPayloads);
+  }
+
+  private onHandlerError(route: MqttRoute, topic: string, err: unknown) {
+    this.logger.error(`MQTT route "${route.name}" failed on ${topic}`, err);
+  }
+}
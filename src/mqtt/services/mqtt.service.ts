@@ -4,40 +4,125 @@ import {
   OnModuleDestroy,
   Logger,
 } from '@nestjs/common';
-import { Cron } from '@nestjs/schedule';
+import { Subscription } from 'rxjs';
 import { MqttConnectionManager } from './mqtt-connection.service';
 import { MqttHealthService } from './mqtt-health.service';
-import { isTradingTime } from '../utils/mqtt-session.util';
+import { QuoteHistoryService } from 'src/quote/services/quote-history.service';
+import { QuoteIngestionService } from 'src/quote/services/quote-ingestion.service';
+import { LeaderElectionService } from 'src/leader/services/leader-election.service';
+import {
+  FeedTransition,
+  TradingCalendarService,
+} from 'src/calendar/services/trading-calendar.service';
+
+// long waits (nights, weekends) are split so the calendar is read again
+const MAX_TIMER_MS = 60 * 60 * 1000;
 
+/**
+ * Owns the DNSE MQTT session. Only the ingest leader (see
+ * LeaderElectionService) connects, the other instances serve the API only.
+ * The session opens and closes with the trading calendar: no connection on
+ * weekends and holidays, nor during the lunch break.
+ */
 @Injectable()
 export class MqttService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(MqttService.name);
 
+  private subscription: Subscription | null = null;
+  private sessionTimer: NodeJS.Timeout | null = null;
+  private isStopped = false;
+
   constructor(
     private readonly conn: MqttConnectionManager,
     private readonly health: MqttHealthService,
+    private readonly quoteHistoryService: QuoteHistoryService,
+    private readonly quoteIngestionService: QuoteIngestionService,
+    private readonly leaderService: LeaderElectionService,
+    private readonly calendar: TradingCalendarService,
   ) {}
 
-  async onModuleInit() {
-    if (isTradingTime()) await this.conn.connect();
-    this.health.start();
+  onModuleInit() {
+    this.isStopped = false;
+    this.subscription = this.leaderService.leadership$.subscribe(
+      (isLeader) => void this.onLeadershipChange(isLeader),
+    );
+    this.scheduleSession();
   }
 
   onModuleDestroy() {
+    this.isStopped = true;
+    if (this.sessionTimer) clearTimeout(this.sessionTimer);
+    this.sessionTimer = null;
+
+    this.subscription?.unsubscribe();
     this.health.stop();
     this.conn.end();
   }
 
-  @Cron('0 9 * * 1-5')
-  @Cron('0 13 * * 1-5')
+  private async onLeadershipChange(isLeader: boolean) {
+    if (!isLeader) {
+      this.endSession();
+      return;
+    }
+
+    if (this.calendar.isTradingTime()) await this.startSession();
+  }
+
   async startSession() {
+    if (!this.leaderService.isLeader) return;
+
+    this.health.start();
     await this.conn.connect();
   }
 
-  @Cron('30 11 * * 1-5')
-  @Cron('30 15 * * 1-5')
   endSession() {
     this.conn.end();
     this.health.stop();
   }
+
+  /**
+   * Afternoon close: end the session, write the quotes still buffered,
+   * then freeze today's quotes into the daily history (on the leader only).
+   */
+  async endTradingDay() {
+    this.endSession();
+    if (!this.leaderService.isLeader) return;
+
+    try {
+      await this.quoteIngestionService.drain();
+      await this.quoteHistoryService.archiveDay();
+    } catch (err) {
+      this.logger.error('Failed to archive daily quotes', err);
+    }
+  }
+
+  /** Wait for the next time the feed opens or closes. */
+  private scheduleSession() {
+    if (this.isStopped) return;
+
+    const next = this.calendar.getNextFeedTransition();
+    if (!next)
+      this.logger.warn('No trading session ahead in the trading calendar');
+    else
+      this.logger.log(
+        `Next MQTT session ${next.isOpen ? 'start' : 'end'} at ${next.at.toISOString()}`,
+      );
+
+    const delay = next ? next.at.getTime() - Date.now() : MAX_TIMER_MS;
+    this.sessionTimer = setTimeout(
+      () => {
+        void this.onSessionTimer(next).finally(() => this.scheduleSession());
+      },
+      Math.max(0, Math.min(delay, MAX_TIMER_MS)),
+    );
+  }
+
+  private async onSessionTimer(next: FeedTransition | null) {
+    // woke up early to read the calendar again
+    if (!next || Date.now() < next.at.getTime()) return;
+
+    if (next.isOpen) await this.startSession();
+    else if (next.isDayClose) await this.endTradingDay();
+    else this.endSession();
+  }
 }
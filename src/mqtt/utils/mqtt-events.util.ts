@@ -1,24 +1,40 @@
 import { MqttClient } from 'mqtt';
 import { Logger } from '@nestjs/common';
-import { isTradingTime } from './mqtt-session.util';
+
+/**
+ * Match an MQTT topic against a subscription pattern
+ * supporting the `+` (one level) and `#` (remaining levels) wildcards.
+ */
+export function matchTopic(pattern: string, topic: string): boolean {
+  const patternLevels = pattern.split('/');
+  const topicLevels = topic.split('/');
+
+  for (let i = 0; i < patternLevels.length; i++) {
+    const level = patternLevels[i];
+    if (level === '#') return true;
+    if (i >= topicLevels.length) return false;
+    if (level !== '+' && level !== topicLevels[i]) return false;
+  }
+
+  return patternLevels.length === topicLevels.length;
+}
 
 export function registerMqttEvents<T>(
   client: MqttClient,
-  topic: string,
+  topics: string | string[],
   logger: Logger,
-  onMessage: (json: any) => void,
+  onMessage: (json: any, topic: string) => void,
   reconnect: () => void,
 ) {
   client.on('connect', () => {
     logger.log('MQTT connected');
-    client.subscribe(topic);
+    client.subscribe(topics);
   });
 
   client.on('close', () => {
     logger.warn('MQTT closed');
 
-    if (!isTradingTime()) return;
-
+    // reconnect() is a no-op outside trading hours or after end()
     reconnect();
   });
 
@@ -30,15 +46,15 @@ export function registerMqttEvents<T>(
     logger.error(`MQTT Error: ${err.message}`);
     client.end(true);
 
-    if (isTradingTime()) reconnect();
+    reconnect();
   });
 
-  client.on('message', (_, message) => {
+  client.on('message', (topic, message) => {
     try {
       const parsed: unknown = JSON.parse(message.toString());
 
       // ép kiểu ra T
-      onMessage(parsed as T);
+      onMessage(parsed as T, topic);
     } catch (e) {
       logger.error('Error parsing MQTT message', e);
     }
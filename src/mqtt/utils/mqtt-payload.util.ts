@@ -0,0 +1,38 @@
+/**
+ * Shape checks of the DNSE feed payloads, run by the message router before
+ * a handler casts the payload to its feed type.
+ * They only check what the handlers rely on, not every field.
+ */
+
+function isRecord(payload: unknown): payload is Record<string, unknown> {
+  return typeof payload === 'object' && payload !== null;
+}
+
+function isOptionalArray(value: unknown): boolean {
+  return value === undefined || value === null || Array.isArray(value);
+}
+
+/** stockinfo / derivative: keyed by symbol. */
+export function isQuotePayload(payload: unknown): boolean {
+  return (
+    isRecord(payload) && typeof payload.symbol === 'string' && !!payload.symbol
+  );
+}
+
+/** topprice: keyed by symbol, price levels are arrays. */
+export function isTopPricePayload(payload: unknown): boolean {
+  return (
+    isQuotePayload(payload) &&
+    isOptionalArray((payload as Record<string, unknown>).bid) &&
+    isOptionalArray((payload as Record<string, unknown>).offer)
+  );
+}
+
+/** index: keyed by indexName. */
+export function isIndexPayload(payload: unknown): boolean {
+  return (
+    isRecord(payload) &&
+    typeof payload.indexName === 'string' &&
+    !!payload.indexName
+  );
+}
@@ -0,0 +1,21 @@
+import { Controller, Get, NotFoundException, Query } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { StockCodeQueryDto } from 'src/common/dto/stock-code-query.dto';
+import { OrderBookService } from '../services/order-book.service';
+
+@ApiTags('orderbook')
+@Controller()
+export class OrderBookController {
+  constructor(private readonly orderBookService: OrderBookService) {}
+
+  /**
+   * GET /orderbook?Code=SSI
+   */
+  @Get('orderbook')
+  async getOrderBook(@Query() { Code }: StockCodeQueryDto) {
+    const book = await this.orderBookService.getByStockCode(Code);
+    if (!book) throw new NotFoundException(`No order book for ${Code}`);
+
+    return book;
+  }
+}
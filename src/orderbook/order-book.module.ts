@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { LeaderModule } from 'src/leader/leader.module';
+import { OrderBook, OrderBookSchema } from './schemas/order-book.schema';
+import { OrderBookService } from './services/order-book.service';
+import { OrderBookRepository } from './repositories/order-book.repository';
+import { OrderBookController } from './controllers/order-book.controller';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: OrderBook.name, schema: OrderBookSchema },
+    ]),
+    LeaderModule,
+  ],
+  providers: [OrderBookService, OrderBookRepository],
+  exports: [OrderBookService],
+  controllers: [OrderBookController],
+})
+export class OrderBookModule {}
@@ -0,0 +1,33 @@
+import { Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { OrderBook } from '../schemas/order-book.schema';
+
+@Injectable()
+export class OrderBookRepository {
+  constructor(
+    @InjectModel(OrderBook.name) private readonly model: Model<OrderBook>,
+  ) {}
+
+  async upsert(orderBook: OrderBook) {
+    return this.model.updateOne(
+      { StockCode: orderBook.StockCode },
+      { $set: orderBook },
+      { upsert: true },
+    );
+  }
+
+  async getByStockCode(code: string) {
+    return this.model
+      .findOne({ StockCode: code })
+      .select({ _id: 0, createdAt: 0 })
+      .lean();
+  }
+
+  async getByStockCodes(codes: string[]) {
+    return this.model
+      .find({ StockCode: { $in: codes } })
+      .select({ _id: 0, createdAt: 0 })
+      .lean();
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Payload of the DNSE top price topic
+ * (plaintext/quotes/krx/mdds/topprice/v1/roundlot/symbol/+).
+ * Only received from the feed, never stored as is.
+ */
+export interface DnseTopPriceLevel {
+  price?: number;
+  qtty?: number;
+}
+
+export interface DnseTopPrice {
+  marketId?: string;
+  boardId?: string;
+  symbol?: string;
+  bid?: DnseTopPriceLevel[];
+  offer?: DnseTopPriceLevel[];
+  totalBidQtty?: number;
+  totalOfferQtty?: number;
+  sendingTime?: string;
+}
@@ -0,0 +1,26 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type OrderBookDocument = HydratedDocument<OrderBook>;
+
+export class OrderBookLevel {
+  @Prop() Price: number;
+  @Prop() Volume: number;
+}
+
+/**
+ * Top of book per symbol, best level first.
+ * DNSE sends 3 levels (or 10 depending on the subscription).
+ */
+@Schema({ timestamps: true, versionKey: false })
+export class OrderBook {
+  @Prop({ required: true, unique: true }) StockCode: string;
+  @Prop() MarketID?: string;
+  @Prop({ type: [OrderBookLevel], _id: false }) Bids: OrderBookLevel[];
+  @Prop({ type: [OrderBookLevel], _id: false }) Asks: OrderBookLevel[];
+  @Prop() TotalBidVol?: number;
+  @Prop() TotalAskVol?: number;
+  @Prop() SendingTime?: Date;
+}
+
+export const OrderBookSchema = SchemaFactory.createForClass(OrderBook);
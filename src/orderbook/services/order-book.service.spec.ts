@@ -0,0 +1,157 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { OrderBookService } from './order-book.service';
+import { OrderBookRepository } from '../repositories/order-book.repository';
+import { DnseTopPrice } from '../schemas/dnse-top-price.schema';
+import { BehaviorSubject } from 'rxjs';
+import { LeaderElectionService } from 'src/leader/services/leader-election.service';
+
+describe('OrderBookService Unit Tests', () => {
+  let service: OrderBookService;
+
+  const mockRepo = {
+    upsert: jest.fn().mockResolvedValue({}),
+    getByStockCode: jest.fn().mockResolvedValue(null),
+    getByStockCodes: jest.fn().mockResolvedValue([]),
+  };
+  const leadership = new BehaviorSubject(true);
+  const mockLeader = { leadership$: leadership };
+
+  const topPrice: DnseTopPrice = {
+    symbol: 'FPT',
+    marketId: 'MARKET_ID_STO',
+    bid: [
+      { price: 100.5, qtty: 200 },
+      { price: 100.4, qtty: 300 },
+    ],
+    offer: [{ price: 100.6, qtty: 100 }, { qtty: 50 }],
+    totalBidQtty: 500,
+    totalOfferQtty: 100,
+    sendingTime: '2025-06-02T02:30:00.000Z',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrderBookService,
+        { provide: OrderBookRepository, useValue: mockRepo },
+        { provide: LeaderElectionService, useValue: mockLeader },
+      ],
+    }).compile();
+
+    service = module.get<OrderBookService>(OrderBookService);
+  });
+
+  afterEach(() => {
+    leadership.next(true);
+    jest.clearAllMocks();
+  });
+
+  // ============================
+  // 1. Map dữ liệu top price
+  // ============================
+  it('should map levels and skip the ones without price', () => {
+    const book = service.mapTopPrice(topPrice);
+
+    expect(book).toEqual({
+      StockCode: 'FPT',
+      MarketID: 'HOSE',
+      Bids: [
+        { Price: 100.5, Volume: 200 },
+        { Price: 100.4, Volume: 300 },
+      ],
+      Asks: [{ Price: 100.6, Volume: 100 }],
+      TotalBidVol: 500,
+      TotalAskVol: 100,
+      SendingTime: new Date('2025-06-02T02:30:00.000Z'),
+    });
+  });
+
+  // ============================
+  // 2. Bỏ qua sổ lệnh không đổi
+  // ============================
+  it('should save a changed book once', async () => {
+    await service.saveTopPrice(topPrice);
+    await service.saveTopPrice({ ...topPrice, sendingTime: undefined });
+
+    expect(mockRepo.upsert).toHaveBeenCalledTimes(1);
+    expect((await service.getBestBidAsk('FPT')).BestBidPrice).toBe(100.5);
+  });
+
+  // ============================
+  // 3. Tin nhắn lỗi / Mongo lỗi không làm reject
+  // ============================
+  it('should not reject on a message without symbol or a failing write', async () => {
+    await expect(
+      service.saveTopPrice({ ...topPrice, symbol: undefined }),
+    ).resolves.toBeUndefined();
+
+    mockRepo.upsert.mockRejectedValueOnce(new Error('mongo down'));
+    await expect(service.saveTopPrice(topPrice)).resolves.toBeUndefined();
+    expect(mockRepo.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  // ============================
+  // 4. Giá tốt nhất nhiều mã: bộ nhớ trước, Mongo một lần
+  // ============================
+  it('should read the books not in memory in one query', async () => {
+    await service.saveTopPrice(topPrice);
+    mockRepo.getByStockCodes.mockResolvedValue([
+      {
+        StockCode: 'VNM',
+        Bids: [{ Price: 60, Volume: 10 }],
+        Asks: [],
+      },
+    ]);
+
+    const result = await service.getBestBidAsks(['FPT', 'VNM', 'XYZ']);
+
+    expect(mockRepo.getByStockCodes).toHaveBeenCalledWith(['VNM', 'XYZ']);
+    expect(result.get('FPT')).toEqual({
+      BestBidPrice: 100.5,
+      BestBidVol: 200,
+      BestAskPrice: 100.6,
+      BestAskVol: 100,
+    });
+    expect(result.get('VNM')).toEqual({
+      BestBidPrice: 60,
+      BestBidVol: 10,
+      BestAskPrice: null,
+      BestAskVol: null,
+    });
+    expect(result.get('XYZ')?.BestBidPrice).toBeNull();
+  });
+
+  // ============================
+  // 5. Mất quyền leader: đọc sổ lệnh từ Mongo
+  // ============================
+  it('should read books from Mongo once demoted', async () => {
+    service.onModuleInit();
+    await service.saveTopPrice(topPrice);
+
+    const fresher = { StockCode: 'FPT', Bids: [{ Price: 101, Volume: 5 }] };
+    mockRepo.getByStockCode.mockResolvedValueOnce(fresher);
+    leadership.next(false);
+
+    expect(await service.getByStockCode('FPT')).toBe(fresher);
+    service.onModuleDestroy();
+  });
+
+  // ============================
+  // 6. Chỉ tổng khối lượng / sàn đổi vẫn lưu
+  // ============================
+  it('should save a book whose totals or market changed', async () => {
+    await service.saveTopPrice(topPrice);
+    await service.saveTopPrice({ ...topPrice, totalBidQtty: 800 });
+    await service.saveTopPrice({ ...topPrice, totalBidQtty: 800 });
+    await service.saveTopPrice({
+      ...topPrice,
+      totalBidQtty: 800,
+      marketId: 'MARKET_ID_STX',
+    });
+
+    expect(mockRepo.upsert).toHaveBeenCalledTimes(3);
+    expect(mockRepo.upsert).toHaveBeenLastCalledWith(
+      expect.objectContaining({ TotalBidVol: 800, MarketID: 'HNX' }),
+    );
+  });
+});
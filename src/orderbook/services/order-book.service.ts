@@ -0,0 +1,144 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { LeaderElectionService } from 'src/leader/services/leader-election.service';
+import { onLeadershipLost } from 'src/leader/utils/leadership.util';
+import { marketMap } from 'src/quote/map/quote.map';
+import { OrderBook, OrderBookLevel } from '../schemas/order-book.schema';
+import {
+  DnseTopPrice,
+  DnseTopPriceLevel,
+} from '../schemas/dnse-top-price.schema';
+import { OrderBookRepository } from '../repositories/order-book.repository';
+
+export interface BestBidAsk {
+  BestBidPrice: number | null;
+  BestBidVol: number | null;
+  BestAskPrice: number | null;
+  BestAskVol: number | null;
+}
+
+@Injectable()
+export class OrderBookService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(OrderBookService.name);
+
+  // latest book per symbol, the source of truth while this instance leads
+  private books = new Map<string, OrderBook>();
+  private subscription: Subscription | null = null;
+
+  constructor(
+    private readonly orderBookRepo: OrderBookRepository,
+    private readonly leaderService: LeaderElectionService,
+  ) {}
+
+  onModuleInit() {
+    // a demoted replica must read what the new leader writes
+    this.subscription = onLeadershipLost(this.leaderService, () =>
+      this.books.clear(),
+    );
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  mapTopPrice(data: DnseTopPrice): OrderBook | null {
+    if (!data.symbol) return null;
+
+    return {
+      StockCode: data.symbol,
+      MarketID: data.marketId
+        ? (marketMap[data.marketId] ?? data.marketId)
+        : undefined,
+      Bids: mapLevels(data.bid),
+      Asks: mapLevels(data.offer),
+      TotalBidVol: data.totalBidQtty,
+      TotalAskVol: data.totalOfferQtty,
+      SendingTime: data.sendingTime ? new Date(data.sendingTime) : new Date(),
+    };
+  }
+
+  /**
+   * Save a top price message if the book changed.
+   * Called fire-and-forget from the MQTT handler: never rejects.
+   */
+  async saveTopPrice(data: DnseTopPrice): Promise<void> {
+    const book = this.mapTopPrice(data);
+    if (!book) {
+      this.logger.warn('Top price message without symbol, skipped');
+      return;
+    }
+
+    const previous = this.books.get(book.StockCode);
+    if (previous && isSameBook(previous, book)) return;
+
+    this.books.set(book.StockCode, book);
+
+    try {
+      await this.orderBookRepo.upsert(book);
+    } catch (err) {
+      this.logger.error(`Failed to save order book for ${book.StockCode}`, err);
+    }
+  }
+
+  async getByStockCode(code: string) {
+    const book = this.books.get(code);
+    if (book) return book;
+
+    return this.orderBookRepo.getByStockCode(code);
+  }
+
+  async getBestBidAsk(code: string): Promise<BestBidAsk> {
+    return toBestBidAsk(await this.getByStockCode(code));
+  }
+
+  /** Best bid / ask of many symbols, books not in memory in one query. */
+  async getBestBidAsks(codes: string[]): Promise<Map<string, BestBidAsk>> {
+    const books = new Map<string, OrderBook>();
+    const misses: string[] = [];
+    for (const code of codes) {
+      const book = this.books.get(code);
+      if (book) books.set(code, book);
+      else misses.push(code);
+    }
+
+    if (misses.length)
+      for (const book of await this.orderBookRepo.getByStockCodes(misses))
+        books.set(book.StockCode, book);
+
+    return new Map(codes.map((code) => [code, toBestBidAsk(books.get(code))]));
+  }
+}
+
+// every persisted field but SendingTime, which changes on each message
+function isSameBook(a: OrderBook, b: OrderBook): boolean {
+  return (
+    JSON.stringify({ ...a, SendingTime: undefined }) ===
+    JSON.stringify({ ...b, SendingTime: undefined })
+  );
+}
+
+function toBestBidAsk(book?: OrderBook | null): BestBidAsk {
+  const bid = book?.Bids?.[0];
+  const ask = book?.Asks?.[0];
+
+  return {
+    BestBidPrice: bid?.Price ?? null,
+    BestBidVol: bid?.Volume ?? null,
+    BestAskPrice: ask?.Price ?? null,
+    BestAskVol: ask?.Volume ?? null,
+  };
+}
+
+function mapLevels(levels?: DnseTopPriceLevel[]): OrderBookLevel[] {
+  return (levels ?? [])
+    .filter((level) => level.price !== undefined && level.price !== null)
+    .map((level) => ({
+      Price: Number(level.price),
+      Volume: Number(level.qtty ?? 0),
+    }));
+}
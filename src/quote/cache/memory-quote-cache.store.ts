@@ -0,0 +1,63 @@
+import { CachedQuote, QuoteCacheStore } from './quote-cache-store';
+
+/** Process-local store, the default for a single instance. */
+export class MemoryQuoteCacheStore implements QuoteCacheStore {
+  // Map keeps insertion order: first entry = least recently used
+  private latestCache = new Map<string, CachedQuote>();
+
+  constructor(readonly maxSize: number) {}
+
+  getMany(symbols: string[]): Promise<Map<string, CachedQuote>> {
+    const found = new Map<string, CachedQuote>();
+    for (const symbol of symbols) {
+      const cached = this.latestCache.get(symbol);
+      if (!cached) continue;
+
+      // move to the most recently used end
+      this.latestCache.delete(symbol);
+      this.latestCache.set(symbol, cached);
+      found.set(symbol, cached);
+    }
+
+    return Promise.resolve(found);
+  }
+
+  setMany(
+    entries: [string, CachedQuote][],
+    options?: { onlyIfAbsent?: boolean },
+  ): Promise<number> {
+    for (const [symbol, cached] of entries) {
+      if (options?.onlyIfAbsent && this.latestCache.has(symbol)) continue;
+
+      this.latestCache.delete(symbol);
+      this.latestCache.set(symbol, cached);
+    }
+
+    let evicted = 0;
+    while (this.latestCache.size > this.maxSize) {
+      const [oldest] = this.latestCache.keys();
+      this.latestCache.delete(oldest);
+      evicted++;
+    }
+
+    return Promise.resolve(evicted);
+  }
+
+  delete(symbols: string[]): Promise<void> {
+    for (const symbol of symbols) this.latestCache.delete(symbol);
+    return Promise.resolve();
+  }
+
+  entries(): Promise<[string, CachedQuote][]> {
+    return Promise.resolve([...this.latestCache.entries()]);
+  }
+
+  size(): Promise<number> {
+    return Promise.resolve(this.latestCache.size);
+  }
+
+  clear(): Promise<void> {
+    this.latestCache.clear();
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,32 @@
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { QuoteCacheStore } from './quote-cache-store';
+import { MemoryQuoteCacheStore } from './memory-quote-cache.store';
+import { RedisQuoteCacheStore } from './redis-quote-cache.store';
+
+/**
+ * QUOTE_CACHE_STORE=memory (default) keeps the cache in the process,
+ * QUOTE_CACHE_STORE=redis shares it between replicas through REDIS_URL.
+ */
+export function createQuoteCacheStore(
+  configService: ConfigService,
+): QuoteCacheStore {
+  const maxSize = Number(configService.get('QUOTE_CACHE_MAX_SIZE') ?? 5000);
+  const backend = configService.get<string>('QUOTE_CACHE_STORE') ?? 'memory';
+
+  if (backend === 'memory') return new MemoryQuoteCacheStore(maxSize);
+
+  if (backend === 'redis') {
+    const url = configService.get<string>('REDIS_URL');
+    if (!url)
+      throw new Error('REDIS_URL is required for the redis cache store');
+
+    return new RedisQuoteCacheStore(
+      new Redis(url),
+      maxSize,
+      configService.get<string>('REDIS_KEY_PREFIX') ?? 'stock',
+    );
+  }
+
+  throw new Error(`Unknown QUOTE_CACHE_STORE ${backend}`);
+}
@@ -0,0 +1,38 @@
+import { DnseQuote } from '../schemas/dnse-quote.schema';
+
+export interface CachedQuote {
+  data: Partial<DnseQuote>;
+  updatedAt: number;
+}
+
+export const QUOTE_CACHE_STORE = 'QUOTE_CACHE_STORE';
+
+/**
+ * Storage behind QuoteDnseCacheService.
+ * A store only keeps entries and enforces the LRU size limit: reads and
+ * writes mark an entry as recently used, the least recently used entries
+ * are dropped once maxSize is exceeded. TTL is decided by the service, so
+ * expiry works the same on every backend.
+ */
+export interface QuoteCacheStore {
+  readonly maxSize: number;
+
+  getMany(symbols: string[]): Promise<Map<string, CachedQuote>>;
+
+  /**
+   * Returns the number of entries evicted to stay within maxSize.
+   * With onlyIfAbsent, symbols already cached are left untouched.
+   */
+  setMany(
+    entries: [string, CachedQuote][],
+    options?: { onlyIfAbsent?: boolean },
+  ): Promise<number>;
+
+  delete(symbols: string[]): Promise<void>;
+
+  entries(): Promise<[string, CachedQuote][]>;
+
+  size(): Promise<number>;
+
+  clear(): Promise<void>;
+}
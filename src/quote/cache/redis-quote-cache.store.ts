@@ -0,0 +1,123 @@
+import { OnModuleDestroy } from '@nestjs/common';
+import Redis from 'ioredis';
+import { CachedQuote, QuoteCacheStore } from './quote-cache-store';
+
+/**
+ * Store shared by every replica through Redis (or any server speaking the
+ * Redis protocol).
+ * - `<prefix>:quote:<symbol>`: the cached entry as JSON
+ * - `<prefix>:quote-lru`: sorted set of symbols scored by last use
+ */
+export class RedisQuoteCacheStore implements QuoteCacheStore, OnModuleDestroy {
+  private readonly lruKey: string;
+  private lastScore = 0;
+
+  constructor(
+    private readonly redis: Redis,
+    readonly maxSize: number,
+    private readonly prefix: string,
+  ) {
+    this.lruKey = `${prefix}:quote-lru`;
+  }
+
+  async onModuleDestroy() {
+    await this.redis.quit();
+  }
+
+  async getMany(symbols: string[]): Promise<Map<string, CachedQuote>> {
+    const found = new Map<string, CachedQuote>();
+    if (!symbols.length) return found;
+
+    const values = await this.redis.mget(symbols.map((s) => this.key(s)));
+    values.forEach((value, i) => {
+      if (value) found.set(symbols[i], JSON.parse(value) as CachedQuote);
+    });
+
+    if (found.size)
+      await this.redis.zadd(
+        this.lruKey,
+        ...[...found.keys()].flatMap((symbol) => [this.nextScore(), symbol]),
+      );
+
+    return found;
+  }
+
+  async setMany(
+    entries: [string, CachedQuote][],
+    options?: { onlyIfAbsent?: boolean },
+  ): Promise<number> {
+    if (!entries.length) return 0;
+
+    const tx = this.redis.multi();
+    for (const [symbol, cached] of entries) {
+      const json = JSON.stringify(cached);
+      const score = this.nextScore();
+
+      if (options?.onlyIfAbsent) {
+        tx.set(this.key(symbol), json, 'NX');
+        tx.zadd(this.lruKey, 'NX', score, symbol);
+      } else {
+        tx.set(this.key(symbol), json);
+        tx.zadd(this.lruKey, score, symbol);
+      }
+    }
+    await tx.exec();
+
+    return this.evictOverflow();
+  }
+
+  async delete(symbols: string[]): Promise<void> {
+    if (!symbols.length) return;
+
+    await this.redis
+      .multi()
+      .del(...symbols.map((s) => this.key(s)))
+      .zrem(this.lruKey, ...symbols)
+      .exec();
+  }
+
+  async entries(): Promise<[string, CachedQuote][]> {
+    const symbols = await this.redis.zrange(this.lruKey, 0, -1);
+    const found = await this.getMany(symbols);
+
+    return [...found.entries()];
+  }
+
+  async size(): Promise<number> {
+    return this.redis.zcard(this.lruKey);
+  }
+
+  async clear(): Promise<void> {
+    const symbols = await this.redis.zrange(this.lruKey, 0, -1);
+    await this.delete(symbols);
+    await this.redis.del(this.lruKey);
+  }
+
+  /**
+   * Last use time, strictly increasing within this instance so entries
+   * touched in the same millisecond keep their order (as in a Map).
+   */
+  private nextScore() {
+    this.lastScore = Math.max(Date.now(), this.lastScore + 0.001);
+    return this.lastScore;
+  }
+
+  private key(symbol: string) {
+    return `${this.prefix}:quote:${symbol}`;
+  }
+
+  private async evictOverflow(): Promise<number> {
+    const size = await this.redis.zcard(this.lruKey);
+    if (size <= this.maxSize) return 0;
+
+    // lowest scores = least recently used
+    const victims = await this.redis.zrange(
+      this.lruKey,
+      0,
+      size - this.maxSize - 1,
+    );
+    await this.delete(victims);
+
+    return victims.length;
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Headers,
+  MessageEvent,
+  Query,
+  ServiceUnavailableException,
+  Sse,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { filter, from, interval, map, merge, Observable } from 'rxjs';
+import {
+  matchesFilter,
+  QuoteStreamEvent,
+  QuoteStreamFilter,
+  QuoteStreamService,
+  STREAM_UNAVAILABLE,
+} from '../services/quote-stream.service';
+import { QuoteStreamQueryDto } from '../dto/quote-stream-query.dto';
+
+const HEARTBEAT_INTERVAL = 15 * 1000;
+
+@ApiTags('stream')
+@Controller('stream')
+export class QuoteStreamController {
+  constructor(private readonly quoteStreamService: QuoteStreamService) {}
+
+  /**
+   * GET /stream/quotes?Code=FPT,VNM or /stream/quotes?Market_ID=HOSE
+   * Server-Sent Events: one "quote" event per changed MainQuote.
+   * On connect, the latest snapshot of every matching symbol is sent first;
+   * with a Last-Event-ID header only symbols changed after that id are sent.
+   * 503 on a replica that receives no updates (no QUOTE_STREAM_BRIDGE).
+   */
+  @Sse('quotes')
+  streamQuotes(
+    @Query() query: QuoteStreamQueryDto,
+    @Headers('last-event-id') lastEventId?: string,
+  ): Observable<MessageEvent> {
+    if (!this.quoteStreamService.isAvailable)
+      throw new ServiceUnavailableException(STREAM_UNAVAILABLE);
+
+    const streamFilter: QuoteStreamFilter = {
+      codes: query.Code,
+      marketId: query.Market_ID,
+    };
+
+    const snapshots = this.quoteStreamService.getSnapshotsSince(
+      Number(lastEventId) || 0,
+      streamFilter,
+    );
+
+    const updates = this.quoteStreamService.updates$.pipe(
+      filter((event) => matchesFilter(event.quote, streamFilter)),
+    );
+
+    const heartbeats = interval(HEARTBEAT_INTERVAL).pipe(
+      map(
+        (): MessageEvent => ({
+          type: 'heartbeat',
+          data: { time: new Date().toISOString() },
+        }),
+      ),
+    );
+
+    return merge(
+      from(snapshots).pipe(map(toMessageEvent)),
+      updates.pipe(map(toMessageEvent)),
+      heartbeats,
+    );
+  }
+}
+
+function toMessageEvent(event: QuoteStreamEvent): MessageEvent {
+  return { id: String(event.id), type: 'quote', data: event.quote };
+}
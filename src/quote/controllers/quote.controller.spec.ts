@@ -0,0 +1,118 @@
+import { INestApplication } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { configureHttpApp } from 'src/common/utils/http-app.util';
+import { QuoteController } from './quote.controller';
+import { QuoteService } from '../services/quote.service';
+import { QuoteTickService } from '../services/quote-tick.service';
+import { QuoteHistoryService } from '../services/quote-history.service';
+import { QuoteDnseCacheService } from '../services/quote-cache.service';
+
+describe('QuoteController Unit Tests', () => {
+  let app: INestApplication<App>;
+
+  const mockQuoteService = {
+    getByStockCode: jest.fn(),
+    getByStockCodes: jest.fn().mockResolvedValue([]),
+    getByMarketID: jest.fn().mockResolvedValue({ Data: [] }),
+  };
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [QuoteController],
+      providers: [
+        { provide: QuoteService, useValue: mockQuoteService },
+        { provide: QuoteTickService, useValue: {} },
+        { provide: QuoteHistoryService, useValue: {} },
+        { provide: QuoteDnseCacheService, useValue: {} },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    app = module.createNestApplication({ logger: false });
+    configureHttpApp(app);
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const expectEnvelope = (
+    res: request.Response,
+    path: string,
+    message: string | RegExp,
+  ) => {
+    const body = res.body as { message: string | string[] };
+    expect(res.status).toBe(400);
+    expect(res.body).toMatchObject({
+      statusCode: 400,
+      error: 'Bad Request',
+      path,
+    });
+    expect([body.message].flat().join()).toMatch(message);
+  };
+
+  // ============================
+  // 1. Phân trang / Market_ID không hợp lệ
+  // ============================
+  it('should reject an invalid Page or unknown Market_ID with a 400 envelope', async () => {
+    const server = app.getHttpServer();
+
+    const page = await request(server).get(
+      '/stocktradinginfobyMarket_ID?Page=abc',
+    );
+    expectEnvelope(page, '/stocktradinginfobyMarket_ID?Page=abc', /Page/);
+
+    const market = await request(server).get(
+      '/stocktradinginfobyMarket_ID?Market_ID=NYSE',
+    );
+    expectEnvelope(
+      market,
+      '/stocktradinginfobyMarket_ID?Market_ID=NYSE',
+      /Market_ID/,
+    );
+
+    expect(mockQuoteService.getByMarketID).not.toHaveBeenCalled();
+  });
+
+  // ============================
+  // 2. Code rỗng
+  // ============================
+  it('should reject an empty Code with a 400 envelope', async () => {
+    const server = app.getHttpServer();
+
+    const single = await request(server).get('/stocktradinginfo?Code=');
+    expectEnvelope(single, '/stocktradinginfo?Code=', 'Code is required');
+
+    const batch = await request(server).get('/stocktradinginfos?Code=');
+    expectEnvelope(batch, '/stocktradinginfos?Code=', 'Code is required');
+
+    expect(mockQuoteService.getByStockCode).not.toHaveBeenCalled();
+    expect(mockQuoteService.getByStockCodes).not.toHaveBeenCalled();
+  });
+
+  // ============================
+  // 3. Quá 1000 mã
+  // ============================
+  it('should reject more than 1000 codes with a 400 envelope', async () => {
+    const codes = Array.from({ length: 1001 }, (_, i) => `S${i}`);
+
+    const res = await request(app.getHttpServer())
+      .post('/stocktradinginfos')
+      .send({ Codes: codes });
+    expectEnvelope(res, '/stocktradinginfos', /1000/);
+
+    const ok = await request(app.getHttpServer())
+      .post('/stocktradinginfos')
+      .send({ Codes: codes.slice(0, 1000) });
+    expect(ok.status).toBe(200);
+    expect(mockQuoteService.getByStockCodes).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,35 +1,143 @@
-import { Controller, Get, Query } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiSecurity, ApiTags } from '@nestjs/swagger';
+import { AdminApiKeyGuard } from 'src/common/guards/admin-api-key.guard';
+import { StockCodeQueryDto } from 'src/common/dto/stock-code-query.dto';
 import { QuoteService } from '../services/quote.service';
+import { QuoteTickService } from '../services/quote-tick.service';
+import { QuoteHistoryService } from '../services/quote-history.service';
+import { QuoteDnseCacheService } from '../services/quote-cache.service';
+import { StockCodesBodyDto, StockCodesQueryDto } from '../dto/stock-codes.dto';
+import { MarketQuotesQueryDto } from '../dto/market-quotes-query.dto';
+import { ChangeLogQueryDto, TickQueryDto } from '../dto/time-range-query.dto';
+import {
+  ArchiveHistoryQueryDto,
+  HistoryQueryDto,
+} from '../dto/history-query.dto';
 
+@ApiTags('quotes')
 @Controller()
 export class QuoteController {
-  constructor(private readonly quoteService: QuoteService) {}
+  constructor(
+    private readonly quoteService: QuoteService,
+    private readonly quoteTickService: QuoteTickService,
+    private readonly quoteHistoryService: QuoteHistoryService,
+    private readonly quoteCacheService: QuoteDnseCacheService,
+  ) {}
 
   /**
    * GET /stocktradinginfo?Code=AAA
    */
   @Get('stocktradinginfo')
-  async getStockTradingInfo(@Query('Code') code: string) {
-    if (!code) {
-      throw new Error('Code is required');
-    }
+  async getStockTradingInfo(@Query() { Code }: StockCodeQueryDto) {
+    const quote = await this.quoteService.getByStockCode(Code);
+    if (!quote) throw new NotFoundException(`Symbol ${Code} not found`);
 
-    return this.quoteService.getByStockCode(code);
+    return quote;
+  }
+
+  /**
+   * GET /stocktradinginfos?Code=FPT,VNM,HPG
+   */
+  @Get('stocktradinginfos')
+  async getStockTradingInfos(@Query() { Code }: StockCodesQueryDto) {
+    return this.getBatch(Code);
+  }
+
+  /**
+   * POST /stocktradinginfos { "Codes": ["FPT", "VNM", ...] }
+   * For lists too long for a query string.
+   */
+  @Post('stocktradinginfos')
+  @HttpCode(200)
+  async postStockTradingInfos(@Body() { Codes }: StockCodesBodyDto) {
+    return this.getBatch(Codes);
+  }
+
+  private async getBatch(codes: string[]) {
+    const data = await this.quoteService.getByStockCodes(codes);
+
+    return {
+      TotalItems: data.length,
+      NotFound: data.filter((item) => 'NotFound' in item).length,
+      Data: data,
+    };
   }
 
   /**
    * GET /stocktradinginfobyMarket_ID?Page=1&PageSize=20&Market_ID=HOSE
    */
   @Get('stocktradinginfobyMarket_ID')
-  async getByMarketID(
-    @Query('Page') Page = 1,
-    @Query('PageSize') PageSize = 20,
-    @Query('Market_ID') Market_ID = 'HOSE',
-  ) {
-    return this.quoteService.getByMarketID({
-      Page: Number(Page),
-      PageSize: Number(PageSize),
-      Market_ID,
+  async getByMarketID(@Query() query: MarketQuotesQueryDto) {
+    return this.quoteService.getByMarketID(query);
+  }
+
+  /**
+   * GET /stocktradinginfo/ticks?Code=FPT&from=2025-01-02T09:00:00%2B07:00&to=...&Limit=5000
+   */
+  @Get('stocktradinginfo/ticks')
+  async getTicks(@Query() query: TickQueryDto) {
+    return this.quoteTickService.getTicks({
+      code: query.Code,
+      from: query.from,
+      to: query.to,
+      limit: query.Limit,
     });
   }
+
+  /**
+   * GET /stocktradinginfo/changes?Code=FPT&from=...&to=...&Field=matchPrice&Limit=1000
+   * Field-level changes the feed sent for a symbol (today by default).
+   */
+  @Get('stocktradinginfo/changes')
+  async getChangeLog(@Query() query: ChangeLogQueryDto) {
+    return this.quoteService.getChangeLog({
+      code: query.Code,
+      from: query.from,
+      to: query.to,
+      field: query.Field,
+      limit: query.Limit,
+    });
+  }
+
+  /**
+   * GET /stocktradinginfo/cache/stats
+   * Hit / miss / eviction counters of the latest quote cache.
+   */
+  @Get('stocktradinginfo/cache/stats')
+  getCacheStats() {
+    return this.quoteCacheService.getStats();
+  }
+
+  /**
+   * GET /stocktradinginfo/history?Code=FPT&from=2025-01-01&to=2025-01-31
+   */
+  @Get('stocktradinginfo/history')
+  async getHistory(@Query() query: HistoryQueryDto) {
+    return this.quoteHistoryService.getHistory({
+      code: query.Code,
+      from: query.from,
+      to: query.to,
+    });
+  }
+
+  /**
+   * POST /stocktradinginfo/history/archive?Date=2025-01-02
+   * Re-run the end-of-day archive for a date (default: today).
+   * Admin only: X-Api-Key header (ADMIN_API_KEY).
+   */
+  @Post('stocktradinginfo/history/archive')
+  @UseGuards(AdminApiKeyGuard)
+  @ApiSecurity('api-key')
+  async archiveHistory(@Query() query: ArchiveHistoryQueryDto) {
+    return this.quoteHistoryService.archiveDay(query.Date);
+  }
 }
@@ -0,0 +1,39 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { buildMessage, IsOptional, ValidateBy } from 'class-validator';
+import { StockCodeQueryDto } from 'src/common/dto/stock-code-query.dto';
+import { isVnDateString } from '../utils/vn-date.util';
+
+function IsVnDateString() {
+  return ValidateBy({
+    name: 'isVnDateString',
+    validator: {
+      validate: (value) => typeof value === 'string' && isVnDateString(value),
+      defaultMessage: buildMessage(
+        (prefix) => `${prefix}$property must be a date (YYYY-MM-DD)`,
+      ),
+    },
+  });
+}
+
+export class HistoryQueryDto extends StockCodeQueryDto {
+  @ApiPropertyOptional({ format: 'date', example: '2025-01-01' })
+  @IsOptional()
+  @IsVnDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ format: 'date', example: '2025-01-31' })
+  @IsOptional()
+  @IsVnDateString()
+  to?: string;
+}
+
+export class ArchiveHistoryQueryDto {
+  @ApiPropertyOptional({
+    format: 'date',
+    example: '2025-01-02',
+    description: 'Today by default',
+  })
+  @IsOptional()
+  @IsVnDateString()
+  Date?: string;
+}
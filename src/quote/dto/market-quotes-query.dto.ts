@@ -0,0 +1,10 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn } from 'class-validator';
+import { PaginationQueryDto } from 'src/common/dto/pagination-query.dto';
+import { MARKET } from '../enums/market-code.enum';
+
+export class MarketQuotesQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: MARKET, default: MARKET.MARKET_ID_STO })
+  @IsIn(Object.values(MARKET))
+  Market_ID: string = MARKET.MARKET_ID_STO;
+}
@@ -0,0 +1,29 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsArray, IsIn, IsOptional, Matches } from 'class-validator';
+import {
+  SYMBOL_CODE_PATTERN,
+  toUpperCaseList,
+} from 'src/common/utils/query-transform.util';
+import { MARKET } from '../enums/market-code.enum';
+
+export class QuoteStreamQueryDto {
+  @ApiPropertyOptional({
+    type: String,
+    description: 'Comma separated symbol codes',
+    example: 'FPT,VNM',
+  })
+  @IsOptional()
+  @Transform(toUpperCaseList)
+  @IsArray()
+  @Matches(SYMBOL_CODE_PATTERN, {
+    each: true,
+    message: 'Code must contain symbol codes',
+  })
+  Code?: string[];
+
+  @ApiPropertyOptional({ enum: MARKET })
+  @IsOptional()
+  @IsIn(Object.values(MARKET))
+  Market_ID?: string;
+}
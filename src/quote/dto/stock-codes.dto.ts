@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { ArrayMaxSize, ArrayNotEmpty, IsArray, Matches } from 'class-validator';
+import {
+  SYMBOL_CODE_PATTERN,
+  toUpperCaseList,
+} from 'src/common/utils/query-transform.util';
+
+export const MAX_BATCH_CODES = 1000;
+
+export class StockCodesQueryDto {
+  @ApiProperty({
+    type: String,
+    description: 'Comma separated symbol codes',
+    example: 'FPT,VNM,HPG',
+  })
+  @Transform(toUpperCaseList)
+  @Matches(SYMBOL_CODE_PATTERN, {
+    each: true,
+    message: 'Code must contain symbol codes',
+  })
+  @ArrayMaxSize(MAX_BATCH_CODES)
+  @ArrayNotEmpty({ message: 'Code is required' })
+  @IsArray()
+  Code: string[];
+}
+
+/** For lists too long for a query string. */
+export class StockCodesBodyDto {
+  @ApiProperty({ type: [String], example: ['FPT', 'VNM', 'HPG'] })
+  @Transform(toUpperCaseList)
+  @Matches(SYMBOL_CODE_PATTERN, {
+    each: true,
+    message: 'Codes must contain symbol codes',
+  })
+  @ArrayMaxSize(MAX_BATCH_CODES)
+  @ArrayNotEmpty({ message: 'Codes is required' })
+  @IsArray()
+  Codes: string[];
+}
@@ -0,0 +1,49 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsDate, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { StockCodeQueryDto } from 'src/common/dto/stock-code-query.dto';
+
+export class TimeRangeQueryDto extends StockCodeQueryDto {
+  @ApiPropertyOptional({
+    type: String,
+    format: 'date-time',
+    description: 'Start of the current VN trading day by default',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'from is not a valid date' })
+  from?: Date;
+
+  @ApiPropertyOptional({
+    type: String,
+    format: 'date-time',
+    description: 'Now by default',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'to is not a valid date' })
+  to?: Date;
+}
+
+export class ChangeLogQueryDto extends TimeRangeQueryDto {
+  @ApiPropertyOptional({ example: 'matchPrice' })
+  @IsOptional()
+  @IsString()
+  Field?: string;
+
+  @ApiPropertyOptional({ default: 1000, minimum: 1, maximum: 10000 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(10000)
+  Limit: number = 1000;
+}
+
+export class TickQueryDto extends TimeRangeQueryDto {
+  @ApiPropertyOptional({ default: 5000, minimum: 1, maximum: 20000 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(20000)
+  Limit: number = 5000;
+}
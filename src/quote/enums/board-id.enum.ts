@@ -0,0 +1,21 @@
+/**
+ * KRX board ids sent in DnseQuote.boardId.
+ */
+export enum BOARD_ID {
+  ROUND_LOT = 'G1',
+  ODD_LOT = 'G4',
+  BUY_IN = 'G7',
+  PUT_THROUGH = 'T1',
+  PUT_THROUGH_ODD_LOT = 'T2',
+  PUT_THROUGH_POST_CLOSE = 'T3',
+  PUT_THROUGH_POST_CLOSE_ODD_LOT = 'T4',
+  PUT_THROUGH_BUY_IN = 'T6',
+}
+
+export const putThroughBoards: string[] = [
+  BOARD_ID.PUT_THROUGH,
+  BOARD_ID.PUT_THROUGH_ODD_LOT,
+  BOARD_ID.PUT_THROUGH_POST_CLOSE,
+  BOARD_ID.PUT_THROUGH_POST_CLOSE_ODD_LOT,
+  BOARD_ID.PUT_THROUGH_BUY_IN,
+];
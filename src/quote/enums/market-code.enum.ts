@@ -2,4 +2,5 @@ export enum MARKET {
   MARKET_ID_STO = 'HOSE',
   MARKET_ID_STX = 'HNX',
   MARKET_ID_UPX = 'UPCOM',
+  MARKET_ID_DVX = 'DERIVATIVES',
 }
@@ -0,0 +1,10 @@
+/**
+ * KRX product types sent in DnseQuote.symbolType.
+ */
+export enum SYMBOL_TYPE {
+  STOCK = 'ST',
+  FUTURES = 'FU',
+  COVERED_WARRANT = 'CW',
+  ETF = 'EF',
+  BOND = 'BO',
+}
@@ -0,0 +1,67 @@
+import { ConfigService } from '@nestjs/config';
+import { Subject } from 'rxjs';
+import type { WebSocket } from 'ws';
+import { parseQuoteGatewayMessage, QuoteGateway } from './quote.gateway';
+import { QuoteService } from '../services/quote.service';
+import { QuoteDnseCacheService } from '../services/quote-cache.service';
+import { QuoteStreamService } from '../services/quote-stream.service';
+
+describe('QuoteGateway Unit Tests', () => {
+  const mockStreamService = {
+    updates$: new Subject(),
+    isAvailable: true,
+  };
+  const mockCacheService = {
+    getMany: jest.fn().mockResolvedValue(new Map()),
+  };
+
+  function createGateway(maxSymbols?: string) {
+    return new QuoteGateway(
+      {} as QuoteService,
+      mockCacheService as unknown as QuoteDnseCacheService,
+      mockStreamService as unknown as QuoteStreamService,
+      { get: () => maxSymbols } as unknown as ConfigService,
+    );
+  }
+
+  async function subscribeCount(gateway: QuoteGateway, count: number) {
+    const client = {} as WebSocket;
+    gateway.handleConnection(client);
+    const symbols = Array.from({ length: count }, (_, i) => `S${i}`);
+    return gateway.subscribe(client, { symbols });
+  }
+
+  // ============================
+  // 1. WS_MAX_SYMBOLS không hợp lệ: dùng mặc định
+  // ============================
+  it('should fall back to the default limit for an invalid WS_MAX_SYMBOLS', async () => {
+    for (const value of ['abc', '0', '-5', '2.5']) {
+      const gateway = createGateway(value);
+
+      expect((await subscribeCount(gateway, 100)).event).toBe('subscribed');
+      expect((await subscribeCount(gateway, 101)).event).toBe('error');
+    }
+
+    const gateway = createGateway('2');
+    expect((await subscribeCount(gateway, 2)).event).toBe('subscribed');
+    expect((await subscribeCount(gateway, 3)).event).toBe('error');
+  });
+
+  // ============================
+  // 2. Frame không phải JSON object
+  // ============================
+  it('should turn malformed frames into an error reply', () => {
+    for (const frame of ['{"action":', 'hello', 'null', '42', '[]']) {
+      expect(parseQuoteGatewayMessage(frame).event).toBe('malformed');
+    }
+    expect(createGateway().malformed()).toEqual({
+      event: 'error',
+      data: { message: 'Message must be a JSON object' },
+    });
+
+    expect(
+      parseQuoteGatewayMessage('{"action":"subscribe","symbols":["HPG"]}'),
+    ).toEqual({ event: 'subscribe', data: { symbols: ['HPG'] } });
+    expect(parseQuoteGatewayMessage('{"action":"drop"}').event).toBe('invalid');
+  });
+});
@@ -0,0 +1,222 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  SubscribeMessage,
+  WebSocketGateway,
+  WsResponse,
+} from '@nestjs/websockets';
+import { Subscription } from 'rxjs';
+import type { WebSocket } from 'ws';
+import { readPositiveInt } from 'src/common/utils/config.util';
+import { MainQuote } from '../schemas/main-quote.schema';
+import { QuoteService } from '../services/quote.service';
+import { QuoteDnseCacheService } from '../services/quote-cache.service';
+import {
+  QuoteStreamEvent,
+  QuoteStreamService,
+  STREAM_UNAVAILABLE,
+} from '../services/quote-stream.service';
+
+const GATEWAY_ACTIONS = ['subscribe', 'unsubscribe'];
+const DEFAULT_MAX_SYMBOLS = 100;
+
+interface SymbolsMessage {
+  symbols?: unknown;
+}
+
+interface ClientState {
+  symbols: Set<string>;
+  // last quote sent per symbol, deltas are computed against it
+  lastSent: Map<string, Partial<MainQuote>>;
+}
+
+/**
+ * Turn `{"action":"subscribe","symbols":["HPG"]}` into the `{event, data}`
+ * shape the ws adapter dispatches on. Registered in main.ts.
+ * Frames that are not a JSON object become a `malformed` event, the adapter
+ * would otherwise drop them without a reply.
+ */
+export function parseQuoteGatewayMessage(data: string | Buffer) {
+  let message: unknown;
+  try {
+    message = JSON.parse(data.toString());
+  } catch {
+    return { event: 'malformed', data: {} };
+  }
+  if (!message || typeof message !== 'object' || Array.isArray(message))
+    return { event: 'malformed', data: {} };
+
+  const { action, ...rest } = message as { action?: string };
+
+  return {
+    event: GATEWAY_ACTIONS.includes(action ?? '') ? action! : 'invalid',
+    data: rest,
+  };
+}
+
+/**
+ * WS /ws/quotes
+ * -> {"action":"subscribe","symbols":["HPG","FPT"]}
+ * <- {"event":"subscribed","data":{"symbols":["HPG","FPT"]}}
+ * <- {"event":"snapshot","data":{...MainQuote}}
+ * <- {"event":"quote","data":{"StockCode":"HPG","LastPrice":27.5}}  (delta)
+ */
+@WebSocketGateway({ path: '/ws/quotes' })
+export class QuoteGateway
+  implements OnGatewayConnection, OnGatewayDisconnect, OnModuleDestroy
+{
+  private readonly logger = new Logger(QuoteGateway.name);
+
+  private clients = new Map<WebSocket, ClientState>();
+  private subscription: Subscription;
+  private readonly maxSymbols: number;
+
+  constructor(
+    private readonly quoteService: QuoteService,
+    private readonly quoteCacheService: QuoteDnseCacheService,
+    private readonly quoteStreamService: QuoteStreamService,
+    configService: ConfigService,
+  ) {
+    this.maxSymbols = readPositiveInt(
+      configService,
+      'WS_MAX_SYMBOLS',
+      DEFAULT_MAX_SYMBOLS,
+      this.logger,
+    );
+
+    this.subscription = this.quoteStreamService.updates$.subscribe((event) =>
+      this.broadcast(event),
+    );
+  }
+
+  onModuleDestroy() {
+    this.subscription.unsubscribe();
+  }
+
+  handleConnection(client: WebSocket) {
+    this.clients.set(client, { symbols: new Set(), lastSent: new Map() });
+  }
+
+  handleDisconnect(client: WebSocket) {
+    this.clients.delete(client);
+  }
+
+  @SubscribeMessage('subscribe')
+  async subscribe(
+    @ConnectedSocket() client: WebSocket,
+    @MessageBody() body: SymbolsMessage,
+  ): Promise<WsResponse> {
+    if (!this.quoteStreamService.isAvailable)
+      return errorResponse(STREAM_UNAVAILABLE);
+
+    const state = this.clients.get(client);
+    const symbols = parseSymbols(body);
+    if (!state || !symbols)
+      return errorResponse('symbols must be an array of strings');
+
+    const added = symbols.filter((symbol) => !state.symbols.has(symbol));
+    if (state.symbols.size + added.length > this.maxSymbols)
+      return errorResponse(
+        `Too many symbols: at most ${this.maxSymbols} per connection`,
+      );
+
+    for (const symbol of added) state.symbols.add(symbol);
+
+    const cached = await this.quoteCacheService.getMany(added);
+    for (const [symbol, quote] of cached) {
+      // a live update already reached the client while reading the cache
+      if (!state.symbols.has(symbol) || state.lastSent.has(symbol)) continue;
+
+      const snapshot = this.quoteService.mapQuoteToInternalFormat(quote);
+      state.lastSent.set(symbol, snapshot);
+      this.send(client, { event: 'snapshot', data: snapshot });
+    }
+
+    return { event: 'subscribed', data: { symbols: [...state.symbols] } };
+  }
+
+  @SubscribeMessage('unsubscribe')
+  unsubscribe(
+    @ConnectedSocket() client: WebSocket,
+    @MessageBody() body: SymbolsMessage,
+  ): WsResponse {
+    const state = this.clients.get(client);
+    const symbols = parseSymbols(body);
+    if (!state || !symbols)
+      return errorResponse('symbols must be an array of strings');
+
+    for (const symbol of symbols) {
+      state.symbols.delete(symbol);
+      state.lastSent.delete(symbol);
+    }
+
+    return { event: 'unsubscribed', data: { symbols: [...state.symbols] } };
+  }
+
+  @SubscribeMessage('invalid')
+  invalid(): WsResponse {
+    return errorResponse(`action must be one of ${GATEWAY_ACTIONS.join(', ')}`);
+  }
+
+  @SubscribeMessage('malformed')
+  malformed(): WsResponse {
+    return errorResponse('Message must be a JSON object');
+  }
+
+  /** Send each subscriber only the fields that changed since its last message. */
+  private broadcast({ quote }: QuoteStreamEvent) {
+    const code = quote.StockCode;
+    if (!code) return;
+
+    for (const [client, state] of this.clients.entries()) {
+      if (!state.symbols.has(code)) continue;
+
+      const previous = state.lastSent.get(code) ?? {};
+      const delta: Partial<MainQuote> = { StockCode: code };
+      let changed = false;
+
+      for (const [key, value] of Object.entries(quote)) {
+        if (previous[key] === value) continue;
+        const old: unknown = previous[key];
+        if (value instanceof Date && old instanceof Date)
+          if (value.getTime() === old.getTime()) continue;
+
+        delta[key] = value;
+        changed = true;
+      }
+
+      if (!changed) continue;
+
+      state.lastSent.set(code, { ...previous, ...quote });
+      this.send(client, { event: 'quote', data: delta });
+    }
+  }
+
+  private send(client: WebSocket, message: WsResponse) {
+    if (client.readyState !== client.OPEN) return;
+
+    try {
+      client.send(JSON.stringify(message));
+    } catch (err) {
+      this.logger.warn('Failed to send WebSocket message', err);
+    }
+  }
+}
+
+function parseSymbols(body: SymbolsMessage): string[] | null {
+  const { symbols } = body ?? {};
+  if (!Array.isArray(symbols)) return null;
+  if (!symbols.every((symbol) => typeof symbol === 'string')) return null;
+
+  return [
+    ...new Set(symbols.map((s) => s.trim().toUpperCase()).filter(Boolean)),
+  ];
+}
+
+function errorResponse(message: string): WsResponse {
+  return { event: 'error', data: { message } };
+}
@@ -2,7 +2,21 @@ import { MARKET } from '../enums/market-code.enum';
 import { DnseQuote } from '../schemas/dnse-quote.schema';
 import { MainQuote } from '../schemas/main-quote.schema';
 
-export const fieldMap: Record<keyof MainQuote, keyof DnseQuote | null> = {
+/** Per-symbol data a computed field may need besides the quote itself. */
+export interface QuoteMapContext {
+  outstandingShares?: number | null;
+  putThrough?: { volume: number; value: number } | null;
+}
+
+/** MainQuote field computed from the quote instead of copied from one key. */
+export type ComputedField = (
+  quote: Partial<DnseQuote>,
+  ctx: QuoteMapContext,
+) => number | string | Date | null | undefined;
+
+export type FieldSource = keyof DnseQuote | ComputedField | null;
+
+export const fieldMap: Record<keyof MainQuote, FieldSource> = {
   StockCode: 'symbol',
   TradingDate: 'tradingTime',
   KLCPLH: 'listedShares',
@@ -21,12 +35,19 @@ export const fieldMap: Record<keyof MainQuote, keyof DnseQuote | null> = {
   ClosePrice: 'matchPrice',
   BasicPrice: 'referencePrice',
   MarketID: 'marketId',
+  SymbolType: 'symbolType',
+
+  // những key MainQuote được tính toán
+  KLCPNY: (_, ctx) => ctx.outstandingShares,
+  MarketCapital: (quote) => {
+    const price = quote.matchPrice ?? quote.closePrice ?? quote.referencePrice;
+    if (!quote.listedShares || !price) return null;
+    return quote.listedShares * price;
+  },
+  TotalPutVol: (_, ctx) => ctx.putThrough?.volume,
+  TotalPutVal: (_, ctx) => ctx.putThrough?.value,
 
-  // những key MainQuote không khớp
-  KLCPNY: null,
-  MarketCapital: null,
-  TotalPutVol: null,
-  TotalPutVal: null,
+  // chỉ có nghĩa trong danh sách phân trang (QuoteRepository.getByMarketID)
   Row: null,
   Rows: null,
 };
@@ -35,4 +56,5 @@ export const marketMap: Record<string, MARKET> = {
   MARKET_ID_STO: MARKET.MARKET_ID_STO,
   MARKET_ID_STX: MARKET.MARKET_ID_STX,
   MARKET_ID_UPX: MARKET.MARKET_ID_UPX,
+  MARKET_ID_DVX: MARKET.MARKET_ID_DVX,
 };
@@ -6,16 +6,85 @@ import { QuoteService } from './services/quote.service';
 import { QuoteDnseCacheService } from './services/quote-cache.service';
 import { QuoteRepository } from './repositories/quote.repository';
 import { QuoteController } from './controllers/quote.controller';
+import { QuoteTick, QuoteTickSchema } from './schemas/quote-tick.schema';
+import { QuoteTickService } from './services/quote-tick.service';
+import { QuoteTickRepository } from './repositories/quote-tick.repository';
+import { DailyQuote, DailyQuoteSchema } from './schemas/daily-quote.schema';
+import { QuoteHistoryService } from './services/quote-history.service';
+import { DailyQuoteRepository } from './repositories/daily-quote.repository';
+import { QuoteStreamService } from './services/quote-stream.service';
+import { QuoteStreamController } from './controllers/quote-stream.controller';
+import { QuoteGateway } from './gateways/quote.gateway';
+import { OrderBookModule } from 'src/orderbook/order-book.module';
+import { CalendarModule } from 'src/calendar/calendar.module';
+import { QuoteIngestionService } from './services/quote-ingestion.service';
+import {
+  QuoteChangeLog,
+  QuoteChangeLogSchema,
+} from './schemas/quote-change-log.schema';
+import { QuoteChangeLogRepository } from './repositories/quote-change-log.repository';
+import {
+  QuoteReference,
+  QuoteReferenceSchema,
+} from './schemas/quote-reference.schema';
+import { QuoteReferenceService } from './services/quote-reference.service';
+import { QuotePutThroughService } from './services/quote-put-through.service';
+import { ConfigService } from '@nestjs/config';
+import { QUOTE_CACHE_STORE } from './cache/quote-cache-store';
+import { createQuoteCacheStore } from './cache/quote-cache-store.factory';
+import { QUOTE_STREAM_BRIDGE } from './stream/quote-stream-bridge';
+import { createQuoteStreamBridge } from './stream/quote-stream-bridge.factory';
+import { LeaderModule } from 'src/leader/leader.module';
+import { LeaderElectionService } from 'src/leader/services/leader-election.service';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: DnseQuote.name, schema: DnseQuoteSchema },
       { name: MainQuote.name, schema: MainQuoteSchema },
+      { name: QuoteTick.name, schema: QuoteTickSchema },
+      { name: DailyQuote.name, schema: DailyQuoteSchema },
+      { name: QuoteChangeLog.name, schema: QuoteChangeLogSchema },
+      { name: QuoteReference.name, schema: QuoteReferenceSchema },
     ]),
+    OrderBookModule,
+    CalendarModule,
+    LeaderModule,
   ],
-  providers: [QuoteService, QuoteDnseCacheService, QuoteRepository],
-  exports: [QuoteService, QuoteRepository],
-  controllers: [QuoteController],
+  providers: [
+    QuoteService,
+    QuoteDnseCacheService,
+    {
+      provide: QUOTE_CACHE_STORE,
+      inject: [ConfigService],
+      useFactory: createQuoteCacheStore,
+    },
+    QuoteRepository,
+    QuoteTickService,
+    QuoteTickRepository,
+    QuoteHistoryService,
+    DailyQuoteRepository,
+    QuoteStreamService,
+    {
+      provide: QUOTE_STREAM_BRIDGE,
+      inject: [ConfigService, LeaderElectionService],
+      useFactory: createQuoteStreamBridge,
+    },
+    QuoteGateway,
+    QuoteIngestionService,
+    QuoteChangeLogRepository,
+    QuoteReferenceService,
+    QuotePutThroughService,
+  ],
+  exports: [
+    QuoteService,
+    QuoteRepository,
+    QuoteTickService,
+    QuoteHistoryService,
+    QuoteStreamService,
+    QuoteIngestionService,
+    QuotePutThroughService,
+  ],
+  controllers: [QuoteController, QuoteStreamController],
 })
 export class QuoteModule {}
@@ -0,0 +1,47 @@
+import { Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { DailyQuote } from '../schemas/daily-quote.schema';
+import { MainQuote } from '../schemas/main-quote.schema';
+
+@Injectable()
+export class DailyQuoteRepository {
+  constructor(
+    @InjectModel(DailyQuote.name) private readonly model: Model<DailyQuote>,
+  ) {}
+
+  /** Upsert by StockCode + HistoryDate so the same day can be archived again. */
+  async upsertDay(historyDate: string, quotes: MainQuote[]) {
+    if (quotes.length === 0) return 0;
+
+    const result = await this.model.bulkWrite(
+      quotes.map((quote) => ({
+        updateOne: {
+          filter: { StockCode: quote.StockCode, HistoryDate: historyDate },
+          update: { $set: { ...quote, HistoryDate: historyDate } },
+          upsert: true,
+        },
+      })),
+      { ordered: false },
+    );
+
+    return result.upsertedCount + result.modifiedCount;
+  }
+
+  async getByStockCode(query: { code: string; from?: string; to?: string }) {
+    const { code, from, to } = query;
+
+    const HistoryDate: Record<string, string> = {};
+    if (from) HistoryDate.$gte = from;
+    if (to) HistoryDate.$lte = to;
+
+    return this.model
+      .find({
+        StockCode: code,
+        ...(from || to ? { HistoryDate } : {}),
+      })
+      .sort({ HistoryDate: 1 })
+      .select({ _id: 0, createdAt: 0, updatedAt: 0 })
+      .lean();
+  }
+}
@@ -0,0 +1,39 @@
+import { Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { QuoteChangeLog } from '../schemas/quote-change-log.schema';
+
+@Injectable()
+export class QuoteChangeLogRepository {
+  constructor(
+    @InjectModel(QuoteChangeLog.name)
+    private readonly model: Model<QuoteChangeLog>,
+  ) {}
+
+  async insertMany(entries: QuoteChangeLog[]) {
+    if (entries.length === 0) return;
+
+    await this.model.insertMany(entries, { ordered: false });
+  }
+
+  async getByStockCode(query: {
+    code: string;
+    from: Date;
+    to: Date;
+    field?: string;
+    limit: number;
+  }) {
+    const { code, from, to, field, limit } = query;
+
+    return this.model
+      .find({
+        StockCode: code,
+        Time: { $gte: from, $lte: to },
+        ...(field ? { 'Changes.Field': field } : {}),
+      })
+      .sort({ Time: 1 })
+      .limit(limit)
+      .select({ _id: 0 })
+      .lean();
+  }
+}
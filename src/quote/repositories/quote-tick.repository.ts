@@ -0,0 +1,31 @@
+import { Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { QuoteTick } from '../schemas/quote-tick.schema';
+
+@Injectable()
+export class QuoteTickRepository {
+  constructor(
+    @InjectModel(QuoteTick.name) private readonly model: Model<QuoteTick>,
+  ) {}
+
+  async insert(tick: QuoteTick) {
+    return this.model.create(tick);
+  }
+
+  async getByStockCode(query: {
+    code: string;
+    from: Date;
+    to: Date;
+    limit: number;
+  }) {
+    const { code, from, to, limit } = query;
+
+    return this.model
+      .find({ StockCode: code, TradingTime: { $gte: from, $lte: to } })
+      .sort({ TradingTime: 1, TotalVol: 1 })
+      .limit(limit)
+      .select({ _id: 0 })
+      .lean();
+  }
+}
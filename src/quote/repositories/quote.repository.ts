@@ -2,6 +2,7 @@ import { Model } from 'mongoose';
 import { MainQuote } from '../schemas/main-quote.schema';
 import { Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
+import { getTradingDateBounds } from '../utils/vn-date.util';
 
 @Injectable()
 export class QuoteRepository {
@@ -13,6 +14,26 @@ export class QuoteRepository {
     return this.model.findOne({ StockCode: code }).lean();
   }
 
+  async getByStockCodes(codes: string[]) {
+    return this.model
+      .find({ StockCode: { $in: codes } })
+      .select({ _id: 0, createdAt: 0, updatedAt: 0 })
+      .lean();
+  }
+
+  /**
+   * Quotes as they stood at the end of a day: every symbol except those
+   * that traded after it (their MainQuote no longer shows that day).
+   */
+  async getAsOfDate(date: string) {
+    const { end } = getTradingDateBounds(date);
+
+    return this.model
+      .find({ TradingDate: { $not: { $gte: end } } })
+      .select({ _id: 0, createdAt: 0, updatedAt: 0 })
+      .lean();
+  }
+
   async getByMarketID(query: {
     Page: number;
     PageSize: number;
@@ -38,7 +59,11 @@ export class QuoteRepository {
       Market_ID,
       TotalItems: total,
       TotalPages: Math.ceil(total / PageSize),
-      Data: items,
+      Data: items.map((item, i) => ({
+        ...item,
+        Row: skip + i + 1,
+        Rows: total,
+      })),
     };
   }
 }
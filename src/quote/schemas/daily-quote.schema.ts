@@ -0,0 +1,19 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+import { MainQuote } from './main-quote.schema';
+
+export type DailyQuoteDocument = HydratedDocument<DailyQuote>;
+
+/**
+ * MainQuote frozen at the end of a trading day.
+ * One document per StockCode + HistoryDate.
+ */
+@Schema({ timestamps: true, versionKey: false })
+export class DailyQuote extends MainQuote {
+  // trading date in Asia/Ho_Chi_Minh, YYYY-MM-DD
+  @Prop({ required: true }) HistoryDate: string;
+}
+
+export const DailyQuoteSchema = SchemaFactory.createForClass(DailyQuote);
+
+DailyQuoteSchema.index({ StockCode: 1, HistoryDate: 1 }, { unique: true });
@@ -66,3 +66,8 @@ export class DnseQuote extends Document {
 }
 
 export const DnseQuoteSchema = SchemaFactory.createForClass(DnseQuote);
+
+// /market/status reads the quotes each market updated today
+DnseQuoteSchema.index({ marketId: 1, updatedAt: -1 });
+// foreign flow totals of a market over the trading day
+DnseQuoteSchema.index({ marketId: 1, tradingTime: -1 });
@@ -29,6 +29,7 @@ export class MainQuote {
   @Prop() Row?: number;
   @Prop() Rows?: number;
   @Prop() MarketID?: string;
+  @Prop() SymbolType?: string;
 }
 
 export const MainQuoteSchema = SchemaFactory.createForClass(MainQuote);
@@ -0,0 +1,27 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, SchemaTypes } from 'mongoose';
+
+export type QuoteChangeLogDocument = HydratedDocument<QuoteChangeLog>;
+
+export class QuoteFieldChange {
+  @Prop() Field: string;
+  @Prop({ type: SchemaTypes.Mixed }) Old: unknown;
+  @Prop({ type: SchemaTypes.Mixed }) New: unknown;
+}
+
+/**
+ * What the feed actually changed on a DnseQuote, one entry per message.
+ * Entries expire after 30 days.
+ */
+@Schema({ versionKey: false })
+export class QuoteChangeLog {
+  @Prop({ required: true }) StockCode: string;
+  @Prop({ required: true }) Time: Date;
+  @Prop({ type: [QuoteFieldChange], _id: false }) Changes: QuoteFieldChange[];
+}
+
+export const QuoteChangeLogSchema =
+  SchemaFactory.createForClass(QuoteChangeLog);
+
+QuoteChangeLogSchema.index({ StockCode: 1, Time: 1 });
+QuoteChangeLogSchema.index({ Time: 1 }, { expireAfterSeconds: 30 * 86400 });
@@ -0,0 +1,18 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type QuoteReferenceDocument = HydratedDocument<QuoteReference>;
+
+/**
+ * Reference data the feed does not send, maintained outside the service
+ * (e.g. outstanding shares from the issuer's filings).
+ */
+@Schema({ timestamps: true, versionKey: false })
+export class QuoteReference {
+  @Prop({ required: true, unique: true }) StockCode: string;
+  // outstanding shares (KLCPNY)
+  @Prop() OutstandingShares?: number;
+}
+
+export const QuoteReferenceSchema =
+  SchemaFactory.createForClass(QuoteReference);
@@ -0,0 +1,21 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type QuoteTickDocument = HydratedDocument<QuoteTick>;
+
+/**
+ * Append-only trade tape: one document per matched trade of a symbol.
+ */
+@Schema({ versionKey: false })
+export class QuoteTick {
+  @Prop({ required: true }) StockCode: string;
+  @Prop({ required: true }) TradingTime: Date;
+  @Prop() MatchPrice?: number;
+  @Prop() MatchQuantity?: number;
+  @Prop() MatchValue?: number;
+  @Prop() TotalVol?: number;
+}
+
+export const QuoteTickSchema = SchemaFactory.createForClass(QuoteTick);
+
+QuoteTickSchema.index({ StockCode: 1, TradingTime: 1 });
@@ -0,0 +1,168 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import RedisMock from 'ioredis-mock';
+import { QuoteDnseCacheService } from './quote-cache.service';
+import { DnseQuote } from '../schemas/dnse-quote.schema';
+import { TradingCalendarService } from 'src/calendar/services/trading-calendar.service';
+import { QUOTE_CACHE_STORE, QuoteCacheStore } from '../cache/quote-cache-store';
+import { MemoryQuoteCacheStore } from '../cache/memory-quote-cache.store';
+import { RedisQuoteCacheStore } from '../cache/redis-quote-cache.store';
+
+// cùng một bộ test cho mọi backend
+const backends: [string, (maxSize: number) => QuoteCacheStore][] = [
+  ['memory', (maxSize) => new MemoryQuoteCacheStore(maxSize)],
+  [
+    'redis',
+    (maxSize) => new RedisQuoteCacheStore(new RedisMock(), maxSize, 'test'),
+  ],
+];
+
+describe.each(backends)(
+  'QuoteDnseCacheService Unit Tests (%s)',
+  (_, create) => {
+    let service: QuoteDnseCacheService;
+    let store: QuoteCacheStore;
+
+    // newest first, as sorted by tradingTime
+    const storedQuotes = [
+      { symbol: 'FPT', matchPrice: 100 },
+      { symbol: 'VNM', matchPrice: 60 },
+    ];
+    const query = {
+      sort: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      lean: jest.fn(() => Promise.resolve([...storedQuotes])),
+    };
+    const mockDnseModel = { find: jest.fn(() => query) };
+    const mockCalendar = { isTradingTime: jest.fn() };
+
+    const config: Record<string, number> = {
+      QUOTE_CACHE_TTL_MS: 1000,
+    };
+
+    beforeEach(async () => {
+      jest
+        .useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] })
+        .setSystemTime(new Date('2025-01-02T15:00:00+07:00'));
+      store = create(2);
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          QuoteDnseCacheService,
+          { provide: QUOTE_CACHE_STORE, useValue: store },
+          { provide: TradingCalendarService, useValue: mockCalendar },
+          { provide: getModelToken(DnseQuote.name), useValue: mockDnseModel },
+          {
+            provide: ConfigService,
+            useValue: { get: (key: string) => config[key] },
+          },
+        ],
+      }).compile();
+
+      service = module.get<QuoteDnseCacheService>(QuoteDnseCacheService);
+    });
+
+    afterEach(async () => {
+      await store.clear();
+      jest.useRealTimers();
+      jest.clearAllMocks();
+    });
+
+    // ============================
+    // 1. Nạp sẵn cache khi khởi động
+    // ============================
+    it('should preload the most recent quotes within the size limit', async () => {
+      await service.onModuleInit();
+
+      expect(query.limit).toHaveBeenCalledWith(2);
+      expect(await service.getStats()).toMatchObject({ preloaded: 2, size: 2 });
+
+      // VNM (cũ nhất) bị bỏ trước khi có mã mới
+      await service.set('HPG', { symbol: 'HPG' });
+      expect(await service.get('VNM')).toBeUndefined();
+      expect((await service.get('FPT'))?.matchPrice).toBe(100);
+    });
+
+    // ============================
+    // 2. Nạp sẵn không ghi đè mã đã có trong cache
+    // ============================
+    it('should keep symbols already cached when preloading', async () => {
+      await service.set('FPT', { symbol: 'FPT', matchPrice: 105 });
+
+      await service.preload();
+
+      expect((await service.get('FPT'))?.matchPrice).toBe(105);
+    });
+
+    // ============================
+    // 3. LRU: bỏ mã ít được dùng nhất
+    // ============================
+    it('should evict the least recently used symbol', async () => {
+      await service.set('FPT', { symbol: 'FPT' });
+      await service.set('VNM', { symbol: 'VNM' });
+      await service.get('FPT');
+      await service.set('HPG', { symbol: 'HPG' });
+
+      expect(await service.get('VNM')).toBeUndefined();
+      expect(await service.get('FPT')).toBeDefined();
+      expect(await service.getStats()).toMatchObject({
+        evictions: 1,
+        hits: 2,
+        misses: 1,
+        size: 2,
+      });
+    });
+
+    // ============================
+    // 4. TTL chỉ áp dụng trong giờ giao dịch
+    // ============================
+    it('should only expire entries during trading hours', async () => {
+      await service.set('FPT', { symbol: 'FPT' });
+      jest.advanceTimersByTime(5000);
+
+      mockCalendar.isTradingTime.mockReturnValue(false);
+      expect(await service.get('FPT')).toBeDefined();
+
+      mockCalendar.isTradingTime.mockReturnValue(true);
+      expect(await service.get('FPT')).toBeUndefined();
+      expect(await service.getStats()).toMatchObject({ expired: 1, size: 0 });
+    });
+
+    // ============================
+    // 5. Dọn các mã hết hạn
+    // ============================
+    it('should remove expired entries on cleanup', async () => {
+      await service.set('FPT', { symbol: 'FPT' });
+      jest.advanceTimersByTime(5000);
+      await service.set('VNM', { symbol: 'VNM' });
+      mockCalendar.isTradingTime.mockReturnValue(true);
+
+      await service.cleanupCache();
+
+      expect(await service.getMany(['FPT', 'VNM'])).toEqual(
+        new Map([['VNM', { symbol: 'VNM' }]]),
+      );
+    });
+  },
+);
+
+describe('QuoteDnseCacheService store failures', () => {
+  // ============================
+  // 6. Store lỗi: coi như không có cache
+  // ============================
+  it('should treat a failing store as a miss', async () => {
+    const store = new MemoryQuoteCacheStore(2);
+    jest.spyOn(store, 'getMany').mockRejectedValue(new Error('down'));
+    const service = new QuoteDnseCacheService(
+      {} as never,
+      store,
+      { isTradingTime: () => false } as unknown as TradingCalendarService,
+      { get: () => undefined } as unknown as ConfigService,
+    );
+
+    expect(await service.get('FPT')).toBeUndefined();
+    expect(await service.getStats()).toMatchObject({ errors: 1, misses: 1 });
+  });
+});
@@ -1,59 +1,199 @@
-import { Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
 import { DnseQuote } from '../schemas/dnse-quote.schema';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import { TradingCalendarService } from 'src/calendar/services/trading-calendar.service';
+import {
+  CachedQuote,
+  QUOTE_CACHE_STORE,
+  QuoteCacheStore,
+} from '../cache/quote-cache-store';
 
-interface CachedQuote {
-  data: Partial<DnseQuote>;
-  updatedAt: number;
-}
-
-export class QuoteDnseCacheService {
+/**
+ * Latest quote of each symbol, kept in a QuoteCacheStore (in memory or
+ * shared through Redis, see QUOTE_CACHE_STORE).
+ * TTL is checked here and not by the store, so both backends expire the
+ * same way. On the read path a failing store is treated as a miss and callers
+ * fall back to Mongo; the write path uses lookup() to tell the two apart.
+ */
+@Injectable()
+export class QuoteDnseCacheService implements OnModuleInit {
   // using for debugging
   private readonly logger = new Logger(QuoteDnseCacheService.name);
 
-  // using for caching lastest quotes
-  private latestCache = new Map<string, CachedQuote>();
+  // life time of cache, only applied during trading hours:
+  // after the close quotes stop changing and stay valid until the next session
+  private readonly cacheTTL: number;
+
+  // counters of this instance, the store may be shared with other replicas
+  private stats = {
+    hits: 0,
+    misses: 0,
+    evictions: 0,
+    expired: 0,
+    preloaded: 0,
+    errors: 0,
+  };
 
-  // life time of cache
-  private cacheTTL = 5 * 60 * 1000;
+  constructor(
+    @InjectModel(DnseQuote.name)
+    private readonly dnseQuoteModel: Model<DnseQuote>,
+    @Inject(QUOTE_CACHE_STORE)
+    private readonly store: QuoteCacheStore,
+    private readonly calendar: TradingCalendarService,
+    configService: ConfigService,
+  ) {
+    this.cacheTTL = Number(
+      configService.get('QUOTE_CACHE_TTL_MS') ?? 5 * 60 * 1000,
+    );
+  }
+
+  async onModuleInit() {
+    await this.preload();
+  }
 
   /**
-   * get data from map with symbol
-   * get method not check TTL - if expired entry but not cleanupCache() (cron not run yet), get method still return old data
+   * Warm the cache with the last known quote of each symbol, so the first
+   * requests after a restart do not all fall through to Mongo.
+   * Symbols already cached (e.g. by another replica) are kept.
    */
-  get(symbol: string): Partial<DnseQuote> | undefined {
-    const cached = this.latestCache.get(symbol);
-    if (!cached) return undefined;
+  async preload() {
+    try {
+      const quotes = await this.dnseQuoteModel
+        .find()
+        .sort({ tradingTime: -1 })
+        .limit(this.store.maxSize)
+        .select({ _id: 0, createdAt: 0, updatedAt: 0 })
+        .lean<Partial<DnseQuote>[]>();
 
-    if (Date.now() - cached.updatedAt > this.cacheTTL) {
-      this.latestCache.delete(symbol);
-      return undefined;
+      // oldest first, so the most recent quotes are the last to be evicted
+      const now = Date.now();
+      const entries = quotes
+        .reverse()
+        .filter((quote) => quote.symbol)
+        .map((quote): [string, CachedQuote] => [
+          quote.symbol!,
+          { data: quote, updatedAt: now },
+        ]);
+
+      this.stats.evictions += await this.store.setMany(entries, {
+        onlyIfAbsent: true,
+      });
+
+      this.stats.preloaded = quotes.length;
+      this.logger.log(`Preloaded ${quotes.length} quotes into cache`);
+    } catch (err) {
+      this.logger.error('Failed to preload quote cache', err);
     }
+  }
 
-    return cached.data;
+  /**
+   * get data from cache with symbol
+   * an entry past its TTL is removed on read, outside trading hours entries
+   * never expire
+   */
+  async get(symbol: string): Promise<Partial<DnseQuote> | undefined> {
+    const found = await this.getMany([symbol]);
+    return found.get(symbol);
   }
 
-  /** save data into caching with updatedAt = new Date() */
-  set(symbol: string, data: Partial<DnseQuote>): void {
-    this.latestCache.set(symbol, { data, updatedAt: Date.now() });
+  /** Cached quotes of the symbols found, misses are left out. */
+  async getMany(symbols: string[]): Promise<Map<string, Partial<DnseQuote>>> {
+    return (await this.lookup(symbols)).quotes;
   }
 
   /**
-   * Cleanup expired cache
-   * Loop through the map, delete entry if updatedAt + TTL < now
-   * Log number of removed entries
+   * Same as getMany, but tells a failing store (failed = true, nothing was
+   * read) apart from symbols that are simply not cached.
    */
-  cleanupCache() {
+  async lookup(
+    symbols: string[],
+  ): Promise<{ quotes: Map<string, Partial<DnseQuote>>; failed: boolean }> {
+    const result = new Map<string, Partial<DnseQuote>>();
+    if (!symbols.length) return { quotes: result, failed: false };
+
+    let cached: Map<string, CachedQuote>;
+    try {
+      cached = await this.store.getMany(symbols);
+    } catch (err) {
+      this.stats.errors++;
+      this.stats.misses += symbols.length;
+      this.logger.error('Failed to read quote cache', err);
+      return { quotes: result, failed: true };
+    }
+
     const now = Date.now();
-    let removed = 0;
-    for (const [symbol, { updatedAt }] of this.latestCache.entries()) {
-      if (now - updatedAt > this.cacheTTL) {
-        this.latestCache.delete(symbol);
-        removed++;
+    const expired: string[] = [];
+    for (const symbol of symbols) {
+      const entry = cached.get(symbol);
+      if (entry && this.isExpired(entry, now)) {
+        expired.push(symbol);
+        this.stats.expired++;
+      } else if (entry) {
+        result.set(symbol, entry.data);
+        this.stats.hits++;
+        continue;
       }
+      this.stats.misses++;
+    }
+
+    if (expired.length) await this.delete(expired);
+
+    return { quotes: result, failed: false };
+  }
+
+  /** save data into caching with updatedAt = now */
+  async set(symbol: string, data: Partial<DnseQuote>): Promise<void> {
+    await this.setMany([[symbol, data]]);
+  }
+
+  async setMany(quotes: [string, Partial<DnseQuote>][]): Promise<void> {
+    if (!quotes.length) return;
+
+    const now = Date.now();
+    try {
+      this.stats.evictions += await this.store.setMany(
+        quotes.map(([symbol, data]) => [symbol, { data, updatedAt: now }]),
+      );
+    } catch (err) {
+      this.stats.errors++;
+      this.logger.error('Failed to write quote cache', err);
     }
-    if (removed > 0) {
-      this.logger.debug(`Cleaned up ${removed} stale cache entries`);
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  async getStats() {
+    const lookups = this.stats.hits + this.stats.misses;
+
+    return {
+      ...this.stats,
+      size: await this.store.size().catch(() => null),
+      maxSize: this.store.maxSize,
+      ttlMs: this.cacheTTL,
+      hitRatio: lookups ? Number((this.stats.hits / lookups).toFixed(4)) : null,
+    };
+  }
+
+  /**
+   * Cleanup expired cache
+   * Loop through the entries, delete entry if updatedAt + TTL < now
+   * Log number of removed entries
+   */
+  async cleanupCache() {
+    const now = Date.now();
+    const expired = (await this.store.entries())
+      .filter(([, cached]) => this.isExpired(cached, now))
+      .map(([symbol]) => symbol);
+
+    await this.store.delete(expired);
+    this.stats.expired += expired.length;
+    if (expired.length > 0) {
+      this.logger.debug(`Cleaned up ${expired.length} stale cache entries`);
     }
   }
 
@@ -62,7 +202,28 @@ export class QuoteDnseCacheService {
    * @nestjs/schedule Cron manages this Cron, automatically run following the schedule.
    */
   @Cron(CronExpression.EVERY_30_MINUTES)
-  handleCacheCleanup() {
-    this.cleanupCache();
+  async handleCacheCleanup() {
+    try {
+      await this.cleanupCache();
+    } catch (err) {
+      this.logger.error('Failed to clean up quote cache', err);
+    }
+  }
+
+  private async delete(symbols: string[]) {
+    try {
+      await this.store.delete(symbols);
+    } catch (err) {
+      this.stats.errors++;
+      this.logger.error('Failed to delete from quote cache', err);
+    }
+  }
+
+  private isExpired(cached: CachedQuote, now: number): boolean {
+    return (
+      this.cacheTTL > 0 &&
+      now - cached.updatedAt > this.cacheTTL &&
+      this.calendar.isTradingTime(now)
+    );
   }
 }
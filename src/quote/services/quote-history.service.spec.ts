@@ -0,0 +1,62 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { QuoteHistoryService } from './quote-history.service';
+import { QuoteRepository } from '../repositories/quote.repository';
+import { DailyQuoteRepository } from '../repositories/daily-quote.repository';
+
+describe('QuoteHistoryService Unit Tests', () => {
+  let service: QuoteHistoryService;
+
+  const mockQuoteRepo = {
+    getAsOfDate: jest.fn(),
+  };
+  const mockDailyQuoteRepo = {
+    upsertDay: jest.fn(),
+    getByStockCode: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuoteHistoryService,
+        { provide: QuoteRepository, useValue: mockQuoteRepo },
+        { provide: DailyQuoteRepository, useValue: mockDailyQuoteRepo },
+      ],
+    }).compile();
+
+    service = module.get<QuoteHistoryService>(QuoteHistoryService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // ============================
+  // 1. Lưu mọi MainQuote, kể cả mã không giao dịch trong ngày
+  // ============================
+  it('should freeze every quote as of the day, traded or not', async () => {
+    const quotes = [
+      {
+        StockCode: 'FPT',
+        TradingDate: new Date('2025-06-02T14:45:00.000Z'),
+        ClosePrice: 120,
+      },
+      // tạm ngừng giao dịch: TradingDate cũ
+      {
+        StockCode: 'ABC',
+        TradingDate: new Date('2025-05-20T14:45:00.000Z'),
+        ClosePrice: 8,
+      },
+    ];
+    mockQuoteRepo.getAsOfDate.mockResolvedValue(quotes);
+    mockDailyQuoteRepo.upsertDay.mockResolvedValue(2);
+
+    const result = await service.archiveDay('2025-06-02');
+
+    expect(mockQuoteRepo.getAsOfDate).toHaveBeenCalledWith('2025-06-02');
+    expect(mockDailyQuoteRepo.upsertDay).toHaveBeenCalledWith(
+      '2025-06-02',
+      quotes,
+    );
+    expect(result).toEqual({ HistoryDate: '2025-06-02', TotalItems: 2 });
+  });
+});
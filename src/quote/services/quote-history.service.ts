@@ -0,0 +1,44 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { QuoteRepository } from '../repositories/quote.repository';
+import { DailyQuoteRepository } from '../repositories/daily-quote.repository';
+import { formatVnDate } from '../utils/vn-date.util';
+
+@Injectable()
+export class QuoteHistoryService {
+  private readonly logger = new Logger(QuoteHistoryService.name);
+
+  constructor(
+    private readonly quoteRepo: QuoteRepository,
+    private readonly dailyQuoteRepo: DailyQuoteRepository,
+  ) {}
+
+  /**
+   * Freeze the MainQuote of every symbol into the daily history of `date`
+   * (default: today), including symbols that did not trade that day.
+   * Symbols that traded after `date` are left out, their MainQuote is newer.
+   * Safe to run again for the same date: documents are upserted by
+   * StockCode + HistoryDate.
+   */
+  async archiveDay(date: string = formatVnDate()) {
+    const quotes = await this.quoteRepo.getAsOfDate(date);
+    const saved = await this.dailyQuoteRepo.upsertDay(date, quotes);
+
+    this.logger.log(
+      `Archived ${quotes.length} quotes for ${date} (${saved} written)`,
+    );
+
+    return { HistoryDate: date, TotalItems: quotes.length };
+  }
+
+  async getHistory(query: { code: string; from?: string; to?: string }) {
+    const items = await this.dailyQuoteRepo.getByStockCode(query);
+
+    return {
+      StockCode: query.code,
+      From: query.from ?? null,
+      To: query.to ?? null,
+      TotalItems: items.length,
+      Data: items,
+    };
+  }
+}
@@ -0,0 +1,127 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { QuoteIngestionService } from './quote-ingestion.service';
+import { QuoteService } from './quote.service';
+import { DnseQuote } from '../schemas/dnse-quote.schema';
+
+describe('QuoteIngestionService Unit Tests', () => {
+  let service: QuoteIngestionService;
+
+  const mockQuoteService = {
+    saveQuotesBulk: jest.fn(),
+  };
+
+  const savedBatch = (call = 0) => {
+    const [quotes] = mockQuoteService.saveQuotesBulk.mock.calls[call] as [
+      Partial<DnseQuote>[],
+    ];
+    return quotes;
+  };
+
+  beforeEach(async () => {
+    mockQuoteService.saveQuotesBulk.mockImplementation(
+      (quotes: Partial<DnseQuote>[]) => Promise.resolve(quotes.length),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuoteIngestionService,
+        { provide: QuoteService, useValue: mockQuoteService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    // không gọi onModuleInit: flush được gọi thủ công trong test
+    service = module.get<QuoteIngestionService>(QuoteIngestionService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // ============================
+  // 1. Gộp tin nhắn theo mã (latest wins)
+  // ============================
+  it('should coalesce messages of a symbol into one write', async () => {
+    service.enqueue({ symbol: 'FPT', matchPrice: 100, totalVolumeTraded: 10 });
+    service.enqueue({ symbol: 'FPT', matchPrice: 101 });
+    service.enqueue({ symbol: 'VNM', matchPrice: 60 });
+
+    await service.flush();
+
+    expect(mockQuoteService.saveQuotesBulk).toHaveBeenCalledTimes(1);
+    expect(savedBatch()).toEqual([
+      { symbol: 'FPT', matchPrice: 101, totalVolumeTraded: 10 },
+      { symbol: 'VNM', matchPrice: 60 },
+    ]);
+    expect(service.getStats().pending).toBe(0);
+  });
+
+  // ============================
+  // 2. Bỏ tin nhắn cũ đến sau
+  // ============================
+  it('should drop messages older than the last one received', async () => {
+    service.enqueue({
+      symbol: 'FPT',
+      matchPrice: 101,
+      tradingTime: new Date('2025-01-02T02:00:05Z'),
+    });
+    service.enqueue({
+      symbol: 'FPT',
+      matchPrice: 100,
+      tradingTime: new Date('2025-01-02T02:00:01Z'),
+    });
+
+    await service.flush();
+
+    expect(savedBatch()[0].matchPrice).toBe(101);
+    expect(service.getStats().stale).toBe(1);
+  });
+
+  // ============================
+  // 3. Mongo lỗi: giữ lại dữ liệu và thử lại
+  // ============================
+  it('should requeue a failed batch under newer messages', async () => {
+    mockQuoteService.saveQuotesBulk.mockRejectedValueOnce(new Error('down'));
+
+    service.enqueue({ symbol: 'FPT', matchPrice: 100, totalVolumeTraded: 10 });
+    await service.flush();
+
+    service.enqueue({ symbol: 'FPT', matchPrice: 102 });
+    await service.flush();
+
+    expect(savedBatch(1)).toEqual([
+      { symbol: 'FPT', matchPrice: 102, totalVolumeTraded: 10 },
+    ]);
+    expect(service.getStats().failedFlushes).toBe(1);
+  });
+
+  // ============================
+  // 4. Xả hàng đợi khi tắt ứng dụng
+  // ============================
+  it('should drain pending quotes on shutdown', async () => {
+    service.enqueue({ symbol: 'FPT', matchPrice: 100 });
+
+    await service.onModuleDestroy();
+
+    expect(mockQuoteService.saveQuotesBulk).toHaveBeenCalledTimes(1);
+    expect(service.getStats().pending).toBe(0);
+  });
+
+  // ============================
+  // 5. Cấu hình sai: dùng giá trị mặc định
+  // ============================
+  it('should fall back to the defaults for invalid settings', async () => {
+    const invalid = new QuoteIngestionService(
+      mockQuoteService as unknown as QuoteService,
+      { get: () => 'abc' } as unknown as ConfigService,
+    );
+    for (const symbol of ['FPT', 'VNM', 'HPG'])
+      invalid.enqueue({ symbol, matchPrice: 1 });
+
+    await invalid.flush();
+
+    expect(savedBatch()).toHaveLength(3);
+    expect(invalid.getStats()).toMatchObject({ pending: 0, dropped: 0 });
+  });
+});
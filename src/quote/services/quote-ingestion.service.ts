@@ -0,0 +1,170 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readPositiveInt } from 'src/common/utils/config.util';
+import { DnseQuote } from '../schemas/dnse-quote.schema';
+import { QuoteService } from './quote.service';
+
+const MAX_RETRY_DELAY = 5000;
+const DRAIN_ATTEMPTS = 5;
+
+/**
+ * Write-behind pipeline between the MQTT feed and Mongo.
+ *
+ * - Messages are coalesced per symbol (latest wins) until the next flush,
+ *   messages older than the last one seen for the symbol are dropped.
+ * - Only one flush runs at a time, so writes of a symbol are serialized.
+ * - Each flush is one bulkWrite per collection (QuoteService.saveQuotesBulk).
+ * - When Mongo is slow or failing the next flush is delayed (backoff) and
+ *   messages keep coalescing in memory: memory is bounded by the number of
+ *   symbols, not by the message rate.
+ * - Pending quotes are drained on shutdown.
+ */
+@Injectable()
+export class QuoteIngestionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(QuoteIngestionService.name);
+
+  private pending = new Map<string, Partial<DnseQuote>>();
+  private lastSeenTime = new Map<string, number>();
+
+  private flushTimer: NodeJS.Timeout | null = null;
+  private isFlushing = false;
+  private isStopped = false;
+  private retryDelay = 0;
+
+  private readonly flushInterval: number;
+  private readonly batchSize: number;
+  private readonly maxPending: number;
+
+  private stats = { flushed: 0, stale: 0, dropped: 0, failedFlushes: 0 };
+  private lastFlushMs = 0;
+
+  constructor(
+    private readonly quoteService: QuoteService,
+    configService: ConfigService,
+  ) {
+    const read = (key: string, defaultValue: number) =>
+      readPositiveInt(configService, key, defaultValue, this.logger);
+    this.flushInterval = read('QUOTE_FLUSH_INTERVAL_MS', 200);
+    this.batchSize = read('QUOTE_FLUSH_BATCH_SIZE', 1000);
+    this.maxPending = read('QUOTE_MAX_PENDING', 10000);
+  }
+
+  onModuleInit() {
+    this.isStopped = false;
+    this.scheduleFlush();
+  }
+
+  async onModuleDestroy() {
+    this.isStopped = true;
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+
+    await this.drain();
+  }
+
+  /** Queue a quote message. Never blocks the MQTT message handler. */
+  enqueue(data: Partial<DnseQuote>): void {
+    const symbol = data.symbol;
+    if (!symbol) {
+      this.stats.dropped++;
+      return;
+    }
+
+    // out-of-order message: a newer one was already received
+    const time = data.tradingTime ? new Date(data.tradingTime).getTime() : NaN;
+    if (!isNaN(time)) {
+      if (time < (this.lastSeenTime.get(symbol) ?? 0)) {
+        this.stats.stale++;
+        return;
+      }
+      this.lastSeenTime.set(symbol, time);
+    }
+
+    const queued = this.pending.get(symbol);
+    if (!queued && this.pending.size >= this.maxPending) {
+      this.stats.dropped++;
+      this.logger.warn(`Ingestion queue full, dropped quote for ${symbol}`);
+      return;
+    }
+
+    this.pending.set(symbol, queued ? { ...queued, ...data } : data);
+  }
+
+  getStats() {
+    return {
+      ...this.stats,
+      pending: this.pending.size,
+      lastFlushMs: this.lastFlushMs,
+      retryDelay: this.retryDelay,
+    };
+  }
+
+  /** Write one batch of pending quotes. */
+  async flush(): Promise<void> {
+    if (this.isFlushing || this.pending.size === 0) return;
+    this.isFlushing = true;
+
+    const batch = [...this.pending.entries()].slice(0, this.batchSize);
+    for (const [symbol] of batch) this.pending.delete(symbol);
+
+    const start = Date.now();
+    try {
+      this.stats.flushed += await this.quoteService.saveQuotesBulk(
+        batch.map(([, data]) => data),
+      );
+      this.retryDelay = 0;
+    } catch (err) {
+      this.stats.failedFlushes++;
+      this.retryDelay = Math.min(
+        Math.max(this.retryDelay * 2, this.flushInterval),
+        MAX_RETRY_DELAY,
+      );
+      this.logger.error(
+        `Failed to flush ${batch.length} quotes, retrying in ${this.retryDelay}ms`,
+        err,
+      );
+
+      // put the batch back under anything newer received meanwhile
+      for (const [symbol, data] of batch) {
+        const newer = this.pending.get(symbol);
+        this.pending.set(symbol, newer ? { ...data, ...newer } : data);
+      }
+    } finally {
+      this.lastFlushMs = Date.now() - start;
+      this.isFlushing = false;
+    }
+
+    if (this.lastFlushMs > this.flushInterval * 5)
+      this.logger.warn(
+        `Slow quote flush: ${batch.length} quotes in ${this.lastFlushMs}ms, ${this.pending.size} pending`,
+      );
+  }
+
+  private scheduleFlush() {
+    if (this.isStopped) return;
+
+    this.flushTimer = setTimeout(() => {
+      void this.flush().finally(() => this.scheduleFlush());
+    }, this.flushInterval + this.retryDelay);
+  }
+
+  /** Write every pending quote, e.g. before the day is archived. */
+  async drain() {
+    for (let i = 0; i < DRAIN_ATTEMPTS && this.pending.size > 0; i++) {
+      // wait for a flush already in progress
+      while (this.isFlushing) await new Promise((r) => setTimeout(r, 50));
+      await this.flush();
+    }
+
+    if (this.pending.size > 0)
+      this.logger.error(
+        `Shutdown with ${this.pending.size} quotes not written to Mongo`,
+      );
+    else this.logger.log('Quote ingestion drained');
+  }
+}
@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import { DnseQuote } from '../schemas/dnse-quote.schema';
+import { putThroughBoards } from '../enums/board-id.enum';
+import { formatVnDate } from '../utils/vn-date.util';
+
+export interface PutThroughTotals {
+  volume: number;
+  value: number;
+}
+
+interface BoardTotals extends PutThroughTotals {
+  date: string;
+}
+
+/**
+ * Put-through (thỏa thuận) totals of the day per symbol.
+ * Each put-through board reports its own cumulative volume / value,
+ * the symbol total is the sum over its boards.
+ */
+@Injectable()
+export class QuotePutThroughService {
+  // key = symbol, then boardId
+  private totals = new Map<string, Map<string, BoardTotals>>();
+
+  isPutThrough(data: Partial<DnseQuote>): boolean {
+    return !!data.boardId && putThroughBoards.includes(data.boardId);
+  }
+
+  record(data: Partial<DnseQuote>): void {
+    const { symbol, boardId } = data;
+    if (!symbol || !boardId || !this.isPutThrough(data)) return;
+
+    const boards = this.totals.get(symbol) ?? new Map<string, BoardTotals>();
+    boards.set(boardId, {
+      date: formatVnDate(),
+      volume: Number(data.totalVolumeTraded ?? 0),
+      value: Number(data.grossTradeAmount ?? 0),
+    });
+    this.totals.set(symbol, boards);
+  }
+
+  get(symbol: string): PutThroughTotals | null {
+    const today = formatVnDate();
+    const boards = [...(this.totals.get(symbol)?.values() ?? [])].filter(
+      (board) => board.date === today,
+    );
+    if (boards.length === 0) return null;
+
+    return boards.reduce(
+      (sum, board) => ({
+        volume: sum.volume + board.volume,
+        value: sum.value + board.value,
+      }),
+      { volume: 0, value: 0 },
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model } from 'mongoose';
+import { QuoteReference } from '../schemas/quote-reference.schema';
+
+/**
+ * In-memory copy of the QuoteReference collection, used by the mapping
+ * layer on every message so it must not hit Mongo.
+ */
+@Injectable()
+export class QuoteReferenceService implements OnModuleInit {
+  private readonly logger = new Logger(QuoteReferenceService.name);
+
+  private references = new Map<string, QuoteReference>();
+
+  constructor(
+    @InjectModel(QuoteReference.name)
+    private readonly referenceModel: Model<QuoteReference>,
+  ) {}
+
+  async onModuleInit() {
+    await this.reload();
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async reload() {
+    try {
+      const items = await this.referenceModel.find().lean();
+      this.references = new Map(items.map((item) => [item.StockCode, item]));
+      this.logger.log(`Loaded ${items.length} quote references`);
+    } catch (err) {
+      this.logger.error('Failed to load quote references', err);
+    }
+  }
+
+  get(code: string): QuoteReference | undefined {
+    return this.references.get(code);
+  }
+}
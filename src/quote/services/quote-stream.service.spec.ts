@@ -0,0 +1,151 @@
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import {
+  matchesFilter,
+  QuoteStreamEvent,
+  QuoteStreamService,
+} from './quote-stream.service';
+import { RedisQuoteStreamBridge } from '../stream/redis-quote-stream.bridge';
+import { LeaderElectionService } from 'src/leader/services/leader-election.service';
+
+describe('QuoteStreamService Unit Tests', () => {
+  const leader = { isLeader: true };
+  const follower = { isLeader: false };
+
+  function createService(
+    bridge: RedisQuoteStreamBridge | null,
+    leaderService: { isLeader: boolean },
+  ) {
+    const service = new QuoteStreamService(
+      bridge,
+      leaderService as LeaderElectionService,
+    );
+    service.onModuleInit();
+    return service;
+  }
+
+  function createBridge(instanceId: string) {
+    const redis = new RedisMock() as unknown as Redis;
+    return new RedisQuoteStreamBridge(
+      redis,
+      redis.duplicate(),
+      'test',
+      instanceId,
+    );
+  }
+
+  // ============================
+  // 1. Không có bridge: chỉ leader stream
+  // ============================
+  it('should only be available on the leader without a bridge', () => {
+    expect(createService(null, leader).isAvailable).toBe(true);
+    expect(createService(null, follower).isAvailable).toBe(false);
+  });
+
+  // ============================
+  // 2. Bridge Redis: follower nhận quote của leader
+  // ============================
+  it('should relay the leader quotes to a follower through the bridge', async () => {
+    const leaderBridge = createBridge('api-1');
+    const followerBridge = createBridge('api-2');
+    const leaderStream = createService(leaderBridge, leader);
+    const followerStream = createService(followerBridge, follower);
+
+    const onLeader: QuoteStreamEvent[] = [];
+    const onFollower: QuoteStreamEvent[] = [];
+    leaderStream.updates$.subscribe((event) => onLeader.push(event));
+    followerStream.updates$.subscribe((event) => onFollower.push(event));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    leaderStream.publish({ StockCode: 'FPT', LastPrice: 100 });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(followerStream.isAvailable).toBe(true);
+    expect(onLeader).toHaveLength(1);
+    expect(onFollower).toEqual(onLeader);
+    expect(followerStream.getSnapshotsSince(0, {})).toEqual(onLeader);
+
+    await Promise.all([
+      leaderBridge.onModuleDestroy(),
+      followerBridge.onModuleDestroy(),
+    ]);
+  });
+
+  // ============================
+  // 3. Lọc theo mã và sàn
+  // ============================
+  it('should match quotes on codes and market', () => {
+    const fpt = { StockCode: 'FPT', MarketID: 'HOSE' };
+
+    expect(matchesFilter(fpt, {})).toBe(true);
+    expect(matchesFilter(fpt, { codes: [] })).toBe(true);
+    expect(matchesFilter(fpt, { codes: ['HPG', 'FPT'] })).toBe(true);
+    expect(matchesFilter(fpt, { codes: ['HPG'] })).toBe(false);
+    expect(matchesFilter(fpt, { marketId: 'HOSE' })).toBe(true);
+    expect(matchesFilter(fpt, { marketId: 'HNX' })).toBe(false);
+    expect(matchesFilter(fpt, { codes: ['FPT'], marketId: 'HNX' })).toBe(false);
+    expect(matchesFilter({ MarketID: 'HOSE' }, { codes: ['FPT'] })).toBe(false);
+  });
+
+  // ============================
+  // 4. Phát lại sau Last-Event-ID
+  // ============================
+  it('should replay the latest snapshot of each symbol after an event id', () => {
+    jest.useFakeTimers().setSystemTime(1000);
+    const service = createService(null, leader);
+
+    service.publish({ StockCode: 'FPT', MarketID: 'HOSE', LastPrice: 100 });
+    service.publish({ StockCode: 'HPG', MarketID: 'HOSE', LastPrice: 27 });
+    service.publish({ StockCode: 'SHS', MarketID: 'HNX', LastPrice: 15 });
+    // cùng mili giây: id vẫn tăng, FPT chỉ giữ bản mới nhất
+    service.publish({ StockCode: 'FPT', MarketID: 'HOSE', LastPrice: 101 });
+    jest.useRealTimers();
+
+    const all = service.getSnapshotsSince(0, {});
+    expect(all.map((event) => event.id)).toEqual([1001, 1002, 1003]);
+    expect(all.map((event) => event.quote.StockCode)).toEqual([
+      'HPG',
+      'SHS',
+      'FPT',
+    ]);
+    expect(all[2].quote.LastPrice).toBe(101);
+
+    expect(
+      service.getSnapshotsSince(1001, {}).map((e) => e.quote.StockCode),
+    ).toEqual(['SHS', 'FPT']);
+    expect(
+      service
+        .getSnapshotsSince(0, { marketId: 'HOSE' })
+        .map((e) => e.quote.StockCode),
+    ).toEqual(['HPG', 'FPT']);
+    expect(service.getSnapshotsSince(1003, {})).toEqual([]);
+  });
+
+  // ============================
+  // 5. Tin nhắn lạ trên kênh bridge bị bỏ qua
+  // ============================
+  it('should skip malformed bridge messages and keep relaying', async () => {
+    const redis = new RedisMock() as unknown as Redis;
+    const bridge = createBridge('api-2');
+    const onEvent = jest.fn();
+    const warn = jest.spyOn(bridge['logger'], 'warn').mockImplementation();
+    await bridge.subscribe(onEvent);
+
+    await redis.publish('test:quote-stream', '{not json');
+    await redis.publish('test:quote-stream', 'null');
+    await redis.publish(
+      'test:quote-stream',
+      JSON.stringify({
+        origin: 'api-1',
+        event: { id: 1, quote: { StockCode: 'FPT' } },
+      }),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(onEvent).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledTimes(2);
+
+    await bridge.onModuleDestroy();
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,111 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import { MainQuote } from '../schemas/main-quote.schema';
+import { LeaderElectionService } from 'src/leader/services/leader-election.service';
+import {
+  QUOTE_STREAM_BRIDGE,
+  QuoteStreamBridge,
+} from '../stream/quote-stream-bridge';
+
+export interface QuoteStreamEvent {
+  // increasing and based on Date.now() so ids stay ordered across restarts
+  id: number;
+  quote: Partial<MainQuote>;
+}
+
+export const STREAM_UNAVAILABLE =
+  'Quote stream not available on this instance: only the ingest leader streams without QUOTE_STREAM_BRIDGE';
+
+export interface QuoteStreamFilter {
+  codes?: string[];
+  marketId?: string;
+}
+
+/**
+ * Changed quotes for the SSE and WebSocket streams.
+ * Quotes are published by the ingest leader, the one instance writing them;
+ * the other replicas receive them through the QUOTE_STREAM_BRIDGE, without
+ * one they have nothing to stream (see isAvailable).
+ */
+@Injectable()
+export class QuoteStreamService implements OnModuleInit {
+  private readonly logger = new Logger(QuoteStreamService.name);
+
+  private readonly updates = new Subject<QuoteStreamEvent>();
+
+  // latest event per StockCode, replayed to new / reconnecting clients
+  private latest = new Map<string, QuoteStreamEvent>();
+
+  private lastId = 0;
+
+  constructor(
+    @Inject(QUOTE_STREAM_BRIDGE)
+    private readonly bridge: QuoteStreamBridge | null,
+    private readonly leaderService: LeaderElectionService,
+  ) {}
+
+  onModuleInit() {
+    // not awaited: the client queues the subscription until Redis is up
+    void this.bridge
+      ?.subscribe((event) => this.emit(event))
+      .catch((err) =>
+        this.logger.error(
+          'Failed to subscribe to the quote stream bridge',
+          err,
+        ),
+      );
+  }
+
+  /** Whether this instance receives the quote updates it would stream. */
+  get isAvailable(): boolean {
+    return !!this.bridge || this.leaderService.isLeader;
+  }
+
+  /** Publish a quote that changed. Called from saveQuoteIfChanged. */
+  publish(quote: Partial<MainQuote>): void {
+    if (!quote.StockCode) return;
+
+    const event = { id: Math.max(Date.now(), this.lastId + 1), quote };
+    this.emit(event);
+
+    void this.bridge
+      ?.publish(event)
+      .catch((err) =>
+        this.logger.error('Failed to publish to the quote stream bridge', err),
+      );
+  }
+
+  private emit(event: QuoteStreamEvent) {
+    const code = event.quote.StockCode;
+    if (!code) return;
+
+    // ids of bridged events come from the leader, keep ours above them
+    this.lastId = Math.max(this.lastId, event.id);
+    this.latest.set(code, event);
+    this.updates.next(event);
+  }
+
+  get updates$(): Observable<QuoteStreamEvent> {
+    return this.updates.asObservable();
+  }
+
+  /** Latest snapshot of every matching symbol changed after `lastEventId`. */
+  getSnapshotsSince(lastEventId: number, filter: QuoteStreamFilter) {
+    return [...this.latest.values()]
+      .filter((event) => event.id > lastEventId)
+      .filter((event) => matchesFilter(event.quote, filter))
+      .sort((a, b) => a.id - b.id);
+  }
+}
+
+export function matchesFilter(
+  quote: Partial<MainQuote>,
+  filter: QuoteStreamFilter,
+): boolean {
+  if (filter.codes?.length && !filter.codes.includes(quote.StockCode ?? ''))
+    return false;
+
+  if (filter.marketId && quote.MarketID !== filter.marketId) return false;
+
+  return true;
+}
@@ -0,0 +1,83 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { QuoteTickService } from './quote-tick.service';
+import { QuoteTickRepository } from '../repositories/quote-tick.repository';
+import { DnseQuote } from '../schemas/dnse-quote.schema';
+
+describe('QuoteTickService Unit Tests', () => {
+  let service: QuoteTickService;
+
+  const mockRepo = {
+    insert: jest.fn().mockResolvedValue({}),
+    getByStockCode: jest.fn().mockResolvedValue([]),
+  };
+
+  const match = (
+    tradingTime: string,
+    totalVolumeTraded: number,
+  ): Partial<DnseQuote> => ({
+    symbol: 'FPT',
+    matchPrice: 100,
+    matchQuantity: 10,
+    totalVolumeTraded,
+    tradingTime: new Date(tradingTime),
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuoteTickService,
+        { provide: QuoteTickRepository, useValue: mockRepo },
+      ],
+    }).compile();
+
+    service = module.get<QuoteTickService>(QuoteTickService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // ============================
+  // 1. Bỏ qua tin nhắn gửi lại
+  // ============================
+  it('should record a tick only when the cumulative volume moves forward', async () => {
+    await service.recordTick(match('2025-06-02T02:30:00.000Z', 1000));
+    await service.recordTick(match('2025-06-02T02:30:01.000Z', 1000));
+    await service.recordTick(match('2025-06-02T02:30:02.000Z', 1010));
+
+    expect(mockRepo.insert).toHaveBeenCalledTimes(2);
+    expect(mockRepo.insert).toHaveBeenLastCalledWith(
+      expect.objectContaining({ StockCode: 'FPT', TotalVol: 1010 }),
+    );
+  });
+
+  // ============================
+  // 2. Sang ngày mới: khối lượng tính lại từ đầu
+  // ============================
+  it('should record the first ticks of the next day', async () => {
+    await service.recordTick(match('2025-06-02T07:45:00.000Z', 500000));
+    await service.recordTick(match('2025-06-03T02:15:00.000Z', 10));
+
+    expect(mockRepo.insert).toHaveBeenCalledTimes(2);
+    expect(mockRepo.insert).toHaveBeenLastCalledWith(
+      expect.objectContaining({ TotalVol: 10 }),
+    );
+  });
+
+  // ============================
+  // 3. Giới hạn số tick trả về
+  // ============================
+  it('should cap the trade tape', async () => {
+    await service.getTicks({ code: 'FPT' });
+    await service.getTicks({ code: 'FPT', limit: 100 });
+
+    expect(mockRepo.getByStockCode).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ code: 'FPT', limit: 5000 }),
+    );
+    expect(mockRepo.getByStockCode).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ limit: 100 }),
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DnseQuote } from '../schemas/dnse-quote.schema';
+import { QuoteTickRepository } from '../repositories/quote-tick.repository';
+import { formatVnDate, getVnDayStart } from '../utils/vn-date.util';
+
+@Injectable()
+export class QuoteTickService {
+  private readonly logger = new Logger(QuoteTickService.name);
+
+  // last totalVolumeTraded seen per symbol and its VN trading day,
+  // used to skip re-sent messages; the volume starts over every day
+  private lastVolume = new Map<string, { date: string; volume: number }>();
+
+  constructor(private readonly tickRepo: QuoteTickRepository) {}
+
+  /**
+   * Append a tick for every message that carries a new match.
+   * A message is a new match when it has a matchQuantity and the cumulative
+   * volume moved forward since the previous message of the same symbol.
+   */
+  async recordTick(data: Partial<DnseQuote>): Promise<void> {
+    const { symbol, matchPrice, matchQuantity, totalVolumeTraded } = data;
+    if (!symbol || !matchQuantity || matchPrice === undefined) return;
+
+    const tradingTime = data.tradingTime
+      ? new Date(data.tradingTime)
+      : new Date();
+    const date = formatVnDate(tradingTime.getTime());
+
+    const last = this.lastVolume.get(symbol);
+    if (
+      totalVolumeTraded !== undefined &&
+      last?.date === date &&
+      totalVolumeTraded <= last.volume
+    )
+      return;
+
+    if (totalVolumeTraded !== undefined)
+      this.lastVolume.set(symbol, { date, volume: totalVolumeTraded });
+
+    try {
+      await this.tickRepo.insert({
+        StockCode: symbol,
+        TradingTime: tradingTime,
+        MatchPrice: matchPrice,
+        MatchQuantity: matchQuantity,
+        MatchValue: data.matchValue ?? matchPrice * matchQuantity,
+        TotalVol: totalVolumeTraded,
+      });
+    } catch (err) {
+      this.logger.error(`Failed to save tick for ${symbol}`, err);
+    }
+  }
+
+  /**
+   * Trade tape of a symbol, oldest first.
+   * Defaults to the current trading day (Asia/Ho_Chi_Minh) up to now,
+   * at most `limit` ticks.
+   */
+  async getTicks(query: {
+    code: string;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+  }) {
+    const now = Date.now();
+    const from = query.from ?? getVnDayStart(now);
+    const to = query.to ?? new Date(now);
+
+    const items = await this.tickRepo.getByStockCode({
+      code: query.code,
+      from,
+      to,
+      limit: query.limit ?? 5000,
+    });
+
+    return {
+      StockCode: query.code,
+      From: from,
+      To: to,
+      TotalItems: items.length,
+      Data: items,
+    };
+  }
+}
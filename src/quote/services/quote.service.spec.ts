@@ -1,4 +1,5 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { QuoteService } from './quote.service';
 import { QuoteDnseCacheService } from './quote-cache.service';
 import { QuoteRepository } from '../repositories/quote.repository';
@@ -6,22 +7,52 @@ import { getModelToken } from '@nestjs/mongoose';
 import { DnseQuote } from '../schemas/dnse-quote.schema';
 import { MainQuote } from '../schemas/main-quote.schema';
 import { Model } from 'mongoose';
+import { QuoteStreamService } from './quote-stream.service';
+import { OrderBookService } from 'src/orderbook/services/order-book.service';
+import { QuoteChangeLogRepository } from '../repositories/quote-change-log.repository';
+import { QuoteReferenceService } from './quote-reference.service';
+import { QuotePutThroughService } from './quote-put-through.service';
+import { QUOTE_CACHE_STORE } from '../cache/quote-cache-store';
+import { MemoryQuoteCacheStore } from '../cache/memory-quote-cache.store';
+import { TradingCalendarService } from 'src/calendar/services/trading-calendar.service';
+import { QUOTE_STREAM_BRIDGE } from '../stream/quote-stream-bridge';
+import { LeaderElectionService } from 'src/leader/services/leader-election.service';
+import { BehaviorSubject } from 'rxjs';
 
 describe('QuoteService Unit Tests', () => {
   let service: QuoteService;
   let cacheService: QuoteDnseCacheService;
   let dnseModel: Model<DnseQuote>;
   let mainModel: Model<MainQuote>;
+  let putThroughService: QuotePutThroughService;
+  let cacheStore: MemoryQuoteCacheStore;
 
+  const storedDnseQuotes = jest.fn().mockResolvedValue([]);
   const mockDnseModel = {
     updateOne: jest.fn().mockResolvedValue({}),
+    bulkWrite: jest.fn().mockResolvedValue({}),
+    find: jest.fn(() => ({ select: () => ({ lean: storedDnseQuotes }) })),
   };
   const mockMainModel = {
     findOne: jest.fn().mockResolvedValue(null),
     updateOne: jest.fn().mockResolvedValue({}),
+    bulkWrite: jest.fn().mockResolvedValue({}),
   };
+  const mockOrderBookService = {
+    getBestBidAsk: jest.fn(),
+    getBestBidAsks: jest.fn().mockResolvedValue(new Map()),
+  };
+  const mockChangeLogRepo = {
+    insertMany: jest.fn().mockResolvedValue(undefined),
+    getByStockCode: jest.fn(),
+  };
+  const mockReferenceService = {
+    get: jest.fn(),
+  };
+  const leadership = new BehaviorSubject(true);
   const mockRepo = {
     getByStockCode: jest.fn(),
+    getByStockCodes: jest.fn(),
     getByMarketID: jest.fn(),
   };
 
@@ -30,7 +61,23 @@ describe('QuoteService Unit Tests', () => {
       providers: [
         QuoteService,
         QuoteDnseCacheService,
+        {
+          provide: QUOTE_CACHE_STORE,
+          useFactory: () => (cacheStore = new MemoryQuoteCacheStore(5000)),
+        },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        TradingCalendarService,
+        QuoteStreamService,
+        { provide: QUOTE_STREAM_BRIDGE, useValue: null },
+        {
+          provide: LeaderElectionService,
+          useValue: { isLeader: true, leadership$: leadership },
+        },
         { provide: QuoteRepository, useValue: mockRepo },
+        { provide: OrderBookService, useValue: mockOrderBookService },
+        { provide: QuoteChangeLogRepository, useValue: mockChangeLogRepo },
+        { provide: QuoteReferenceService, useValue: mockReferenceService },
+        QuotePutThroughService,
         { provide: getModelToken(DnseQuote.name), useValue: mockDnseModel },
         { provide: getModelToken(MainQuote.name), useValue: mockMainModel },
       ],
@@ -40,11 +87,19 @@ describe('QuoteService Unit Tests', () => {
     cacheService = module.get<QuoteDnseCacheService>(QuoteDnseCacheService);
     dnseModel = module.get<Model<DnseQuote>>(getModelToken(DnseQuote.name));
     mainModel = module.get<Model<MainQuote>>(getModelToken(MainQuote.name));
+    putThroughService = module.get<QuotePutThroughService>(
+      QuotePutThroughService,
+    );
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     jest.clearAllMocks();
-    cacheService['latestCache'].clear();
+    jest.restoreAllMocks();
+    storedDnseQuotes.mockResolvedValue([]);
+    mockReferenceService.get.mockReset();
+    await cacheService.clear();
+    service.onModuleDestroy();
+    leadership.next(true);
   });
 
   // ============================
@@ -83,7 +138,7 @@ describe('QuoteService Unit Tests', () => {
 
     expect(dnseModel.updateOne).toHaveBeenCalled();
     expect(mainModel.updateOne).toHaveBeenCalled();
-    const cached = cacheService.get('AAA');
+    const cached = await cacheService.get('AAA');
     expect(cached).toEqual(payload);
   });
 
@@ -138,9 +193,257 @@ describe('QuoteService Unit Tests', () => {
 
     await service.saveQuoteIfChanged(payload);
 
-    const cached = cacheService.get('CCC');
+    const cached = await cacheService.get('CCC');
     for (const key in payload) {
       expect(cached![key]).toEqual(payload[key]);
     }
   });
+
+  // ============================
+  // 6. Chỉ ghi các field thay đổi và lưu change log
+  // ============================
+  it('should write only changed fields and log the change', async () => {
+    const payload: Partial<DnseQuote> = {
+      symbol: 'DDD',
+      matchPrice: 100,
+      totalVolumeTraded: 1000,
+      buyForeignQuantity: 10,
+    };
+    await service.saveQuoteIfChanged(payload);
+    jest.clearAllMocks();
+
+    await service.saveQuoteIfChanged({
+      symbol: 'DDD',
+      matchPrice: 100,
+      totalVolumeTraded: 1000,
+      buyForeignQuantity: 25,
+    });
+
+    expect(mockDnseModel.updateOne).toHaveBeenCalledWith(
+      { symbol: 'DDD' },
+      { $set: { buyForeignQuantity: 25 } },
+      { upsert: true },
+    );
+    expect(mockChangeLogRepo.insertMany).toHaveBeenCalledWith([
+      expect.objectContaining({
+        StockCode: 'DDD',
+        Changes: [{ Field: 'buyForeignQuantity', Old: 10, New: 25 }],
+      }),
+    ]);
+    expect((await cacheService.get('DDD'))?.buyForeignQuantity).toBe(25);
+  });
+
+  // ============================
+  // 7. Bỏ qua tin nhắn không đổi
+  // ============================
+  it('should skip a message that changes nothing', async () => {
+    const payload: Partial<DnseQuote> = { symbol: 'EEE', matchPrice: 100 };
+    await service.saveQuoteIfChanged(payload);
+    jest.clearAllMocks();
+
+    await service.saveQuoteIfChanged({ ...payload });
+
+    expect(mockDnseModel.updateOne).not.toHaveBeenCalled();
+    expect(mockMainModel.updateOne).not.toHaveBeenCalled();
+  });
+
+  // ============================
+  // 8. Các field tính toán
+  // ============================
+  it('should compute market cap, outstanding shares and put-through totals', () => {
+    mockReferenceService.get.mockReturnValue({
+      StockCode: 'FFF',
+      OutstandingShares: 900,
+    });
+    putThroughService.record({
+      symbol: 'FFF',
+      boardId: 'T1',
+      totalVolumeTraded: 30,
+      grossTradeAmount: 300,
+    });
+    putThroughService.record({
+      symbol: 'FFF',
+      boardId: 'T3',
+      totalVolumeTraded: 20,
+      grossTradeAmount: 200,
+    });
+
+    const mainQuote = service.mapQuoteToInternalFormat({
+      symbol: 'FFF',
+      matchPrice: 20,
+      listedShares: 1000,
+    });
+
+    expect(mainQuote.MarketCapital).toBe(20000);
+    expect(mainQuote.KLCPNY).toBe(900);
+    expect(mainQuote.TotalPutVol).toBe(50);
+    expect(mainQuote.TotalPutVal).toBe(500);
+  });
+
+  // ============================
+  // 9. Tra cứu nhiều mã: cache trước, Mongo một lần
+  // ============================
+  it('should batch lookup from cache then one Mongo query, in request order', async () => {
+    await cacheService.set('FPT', { symbol: 'FPT', matchPrice: 100 });
+    mockRepo.getByStockCodes.mockResolvedValue([
+      { StockCode: 'VNM', LastPrice: 60 },
+    ]);
+
+    const result = await service.getByStockCodes(['VNM', 'XYZ', 'FPT']);
+
+    expect(mockRepo.getByStockCodes).toHaveBeenCalledTimes(1);
+    expect(mockRepo.getByStockCodes).toHaveBeenCalledWith(['VNM', 'XYZ']);
+    expect(result).toEqual([
+      { StockCode: 'VNM', LastPrice: 60 },
+      { StockCode: 'XYZ', NotFound: true },
+      expect.objectContaining({ StockCode: 'FPT', LastPrice: 100 }),
+    ]);
+  });
+
+  // ============================
+  // 10. Cache lỗi: so sánh với DnseQuote trong Mongo
+  // ============================
+  it('should diff against the stored quote when the cache store fails', async () => {
+    jest
+      .spyOn(cacheStore, 'getMany')
+      .mockRejectedValue(new Error('redis down'));
+    storedDnseQuotes.mockResolvedValue([
+      {
+        symbol: 'GGG',
+        matchPrice: 100,
+        totalVolumeTraded: 1000,
+        listedShares: 500,
+      },
+    ]);
+
+    const written = await service.saveQuotesBulk([
+      { symbol: 'GGG', totalVolumeTraded: 1200 },
+    ]);
+
+    expect(written).toBe(1);
+    expect(mockDnseModel.find).toHaveBeenCalledWith({
+      symbol: { $in: ['GGG'] },
+    });
+    expect(mockDnseModel.bulkWrite).toHaveBeenCalledWith(
+      [
+        {
+          updateOne: {
+            filter: { symbol: 'GGG' },
+            update: { $set: { totalVolumeTraded: 1200 } },
+            upsert: true,
+          },
+        },
+      ],
+      { ordered: false },
+    );
+    const set = getMainQuoteSet();
+    expect(set).toEqual(
+      expect.objectContaining({ TotalVol: 1200, LastPrice: 100, KLCPLH: 500 }),
+    );
+    expect(Object.values(set)).not.toContain(null);
+  });
+
+  // ============================
+  // 11. Mã mới: chỉ ghi các field có trong tin nhắn
+  // ============================
+  it('should not write nulls for a symbol seen for the first time', async () => {
+    await service.saveQuotesBulk([{ symbol: 'HHH', matchPrice: 10 }]);
+
+    const set = getMainQuoteSet();
+    expect(set).toEqual(
+      expect.objectContaining({
+        StockCode: 'HHH',
+        LastPrice: 10,
+        ClosePrice: 10,
+      }),
+    );
+    expect(Object.values(set)).not.toContain(null);
+  });
+
+  // ============================
+  // 12. Field tính toán thay đổi khi quote không đổi
+  // ============================
+  it('should write put-through totals and outstanding shares when they change', async () => {
+    await service.saveQuotesBulk([
+      { symbol: 'III', matchPrice: 10, symbolType: 'STOCK' },
+    ]);
+    jest.clearAllMocks();
+
+    mockReferenceService.get.mockReturnValue({
+      StockCode: 'III',
+      OutstandingShares: 900,
+    });
+    putThroughService.record({
+      symbol: 'III',
+      boardId: 'T1',
+      totalVolumeTraded: 30,
+      grossTradeAmount: 300,
+    });
+    await service.saveQuotesBulk([{ symbol: 'III' }]);
+
+    expect(mockDnseModel.bulkWrite).not.toHaveBeenCalled();
+    expect(mockMainModel.bulkWrite).toHaveBeenCalledWith(
+      [
+        {
+          updateOne: {
+            filter: { StockCode: 'III' },
+            update: {
+              $set: { KLCPNY: 900, TotalPutVol: 30, TotalPutVal: 300 },
+            },
+            upsert: true,
+          },
+        },
+      ],
+      { ordered: false },
+    );
+  });
+
+  // ============================
+  // 13. Lần ghi đầu sau khi khởi động: ghi đủ các field (backfill)
+  // ============================
+  it('should write every mapped field on the first write after a start', async () => {
+    await cacheService.set('JJJ', {
+      symbol: 'JJJ',
+      matchPrice: 10,
+      symbolType: 'STOCK',
+    });
+
+    await service.saveQuotesBulk([{ symbol: 'JJJ', matchPrice: 11 }]);
+
+    expect(getMainQuoteSet()).toEqual(
+      expect.objectContaining({
+        StockCode: 'JJJ',
+        LastPrice: 11,
+        SymbolType: 'STOCK',
+      }),
+    );
+  });
+
+  // ============================
+  // 14. Được bầu lại sau khi mất quyền leader: không diff theo bản ghi cũ
+  // ============================
+  it('should not diff against its old writes after losing the lead', async () => {
+    service.onModuleInit();
+    await service.saveQuotesBulk([{ symbol: 'KKK', matchPrice: 10 }]);
+
+    // leader khác ghi giá 11 trong lúc instance này là follower
+    leadership.next(false);
+    await cacheService.set('KKK', { symbol: 'KKK', matchPrice: 11 });
+    leadership.next(true);
+    jest.clearAllMocks();
+
+    await service.saveQuotesBulk([{ symbol: 'KKK', matchPrice: 10 }]);
+
+    expect(getMainQuoteSet()).toEqual(
+      expect.objectContaining({ StockCode: 'KKK', LastPrice: 10 }),
+    );
+  });
+
+  /** $set of the first MainQuote bulkWrite operation. */
+  function getMainQuoteSet() {
+    const [[ops]] = mockMainModel.bulkWrite.mock.calls as unknown as [
+      { updateOne: { update: { $set: Record<string, unknown> } } }[],
+    ][];
+    return ops[0].updateOne.update.$set;
+  }
 });
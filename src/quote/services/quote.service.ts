@@ -1,15 +1,43 @@
-import { Logger } from '@nestjs/common';
-import { fieldMap, marketMap } from '../map/quote.map';
+import { Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { fieldMap, marketMap, QuoteMapContext } from '../map/quote.map';
 import { DnseQuote } from '../schemas/dnse-quote.schema';
 import { MainQuote } from '../schemas/main-quote.schema';
 import { QuoteDnseCacheService } from './quote-cache.service';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { QuoteRepository } from '../repositories/quote.repository';
+import { QuoteStreamService } from './quote-stream.service';
+import { OrderBookService } from 'src/orderbook/services/order-book.service';
+import { QuoteChangeLogRepository } from '../repositories/quote-change-log.repository';
+import { QuoteChangeLog } from '../schemas/quote-change-log.schema';
+import { diffFields, toSetUpdate } from '../utils/quote-diff.util';
+import { getVnDayStart } from '../utils/vn-date.util';
+import { QuoteReferenceService } from './quote-reference.service';
+import { QuotePutThroughService } from './quote-put-through.service';
+import { LeaderElectionService } from 'src/leader/services/leader-election.service';
+import { onLeadershipLost } from 'src/leader/utils/leadership.util';
 
-export class QuoteService {
+interface QuoteWrite {
+  symbol: string;
+  StockCode: string;
+  // cached quote with the message applied
+  merged: Partial<DnseQuote>;
+  mainQuote: Partial<MainQuote>;
+  dnseSet: Partial<DnseQuote>;
+  mainSet: Partial<MainQuote>;
+  changeLog: QuoteChangeLog | null;
+}
+
+export class QuoteService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(QuoteService.name);
 
+  // MainQuote of each symbol as last written by this instance.
+  // Computed fields (outstanding shares, put-through totals) do not depend on
+  // the DnseQuote only, so MainQuote updates are diffed against this.
+  private writtenMainQuotes = new Map<string, Partial<MainQuote>>();
+  private subscription: Subscription | null = null;
+
   constructor(
     @InjectModel(DnseQuote.name)
     private readonly dnseQuoteModel: Model<DnseQuote>,
@@ -17,10 +45,29 @@ export class QuoteService {
     private readonly mainQuoteModel: Model<MainQuote>,
     private readonly quoteCacheService: QuoteDnseCacheService,
     private readonly quoteRepo: QuoteRepository,
+    private readonly quoteStreamService: QuoteStreamService,
+    private readonly orderBookService: OrderBookService,
+    private readonly quoteChangeLogRepo: QuoteChangeLogRepository,
+    private readonly quoteReferenceService: QuoteReferenceService,
+    private readonly quotePutThroughService: QuotePutThroughService,
+    private readonly leaderService: LeaderElectionService,
   ) {}
 
+  onModuleInit() {
+    // the next leadership diffs against Mongo, not what this instance wrote
+    // before another leader took over
+    this.subscription = onLeadershipLost(this.leaderService, () =>
+      this.writtenMainQuotes.clear(),
+    );
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
   mapQuoteToInternalFormat(quote: Partial<DnseQuote>): Partial<MainQuote> {
     const result: MainQuote = {};
+    const ctx = this.getMapContext(quote.symbol);
 
     for (const [mainKey, dnseKey] of Object.entries(fieldMap)) {
       // If no mapping key, skip
@@ -29,6 +76,12 @@ export class QuoteService {
         continue;
       }
 
+      // Computed field
+      if (typeof dnseKey === 'function') {
+        result[mainKey] = dnseKey(quote, ctx) ?? null;
+        continue;
+      }
+
       const value = quote[dnseKey] as string;
 
       // If no value, set null
@@ -58,95 +111,287 @@ export class QuoteService {
     return result;
   }
 
+  private getMapContext(symbol?: string): QuoteMapContext {
+    if (!symbol) return {};
+
+    return {
+      outstandingShares:
+        this.quoteReferenceService.get(symbol)?.OutstandingShares,
+      putThrough: this.quotePutThroughService.get(symbol),
+    };
+  }
+
   async saveQuoteIfChanged(data: Partial<DnseQuote>): Promise<void> {
     const symbol = data.symbol;
     if (!symbol) throw new Error('Symbol is required to save quote');
 
-    const cached = this.quoteCacheService.get(symbol);
-    const mainQuote = this.mapQuoteToInternalFormat(data);
-    const StockCode = mainQuote.StockCode;
-    if (!StockCode) throw new Error('StockCode missing in mainQuote mapping');
+    const previous = await this.getPreviousQuotes([symbol]);
+    const write = this.prepareQuoteWrite(data, previous.get(symbol));
+    if (!write) return;
 
-    // Kiểm tra DnseQuote thay đổi so với cache
-    const isDnseChanged =
-      !cached ||
-      cached.matchPrice !== data.matchPrice ||
-      cached.totalVolumeTraded !== data.totalVolumeTraded ||
-      cached.matchQuantity !== data.matchQuantity ||
-      cached.changedValue !== data.changedValue ||
-      cached.changedRatio !== data.changedRatio;
-
-    // Quyết định có cần lưu hay không
-    const shouldSaveDnse = isDnseChanged;
-    let shouldSaveMain = isDnseChanged;
-
-    // Nếu DnseQuote chưa thay đổi, check MainQuote tồn tại không
-    if (!isDnseChanged) {
-      const oldMain = await this.mainQuoteModel.findOne({ StockCode }).lean();
-
-      if (!oldMain) {
-        shouldSaveMain = true; // Main chưa tồn tại → upsert
-      } else {
-        // So sánh field MainQuote với mainQuote mới
-        const importantMainFields = [
-          'LastPrice',
-          'TotalVol',
-          'Change',
-          'ChangeRatio',
-        ];
-
-        for (const key of importantMainFields) {
-          if (mainQuote[key] !== oldMain[key]) {
-            console.log(
-              `MainQuote field ${key} changed: ${oldMain[key]} -> ${mainQuote[key]}`,
-            );
-            shouldSaveMain = true;
-            break;
-          }
-        }
-      }
-    }
-
-    if (!shouldSaveDnse && !shouldSaveMain) return;
+    const { StockCode, dnseSet, mainSet, changeLog } = write;
 
     const ops: Promise<any>[] = [];
-    if (shouldSaveDnse) {
+    if (Object.keys(dnseSet).length) {
       ops.push(
         this.dnseQuoteModel.updateOne(
           { symbol },
-          { $set: data },
+          { $set: dnseSet },
           { upsert: true },
         ),
       );
     }
 
     // Upsert MainQuote nếu cần
-    if (shouldSaveMain) {
+    if (Object.keys(mainSet).length) {
       ops.push(
         this.mainQuoteModel.updateOne(
           { StockCode },
-          { $set: mainQuote },
+          { $set: mainSet },
           { upsert: true },
         ),
       );
     }
 
     await Promise.all(ops);
+    await this.saveChangeLogs(changeLog ? [changeLog] : []);
 
-    // Cập nhật lại cache DnseQuote
-    this.quoteCacheService.set(symbol, data);
+    await this.commitQuoteWrites([write]);
 
     this.logger.debug(
-      `Saved quote for ${symbol} (Dnse changed: ${isDnseChanged}, MainQuote changed: ${shouldSaveMain})`,
+      `Saved quote for ${symbol} (${changeLog?.Changes.length ?? 'all'} fields changed)`,
+    );
+  }
+
+  /**
+   * Batch version of saveQuoteIfChanged used by the ingestion pipeline:
+   * one bulkWrite per collection for every quote that changed.
+   * Returns the number of quotes written.
+   */
+  async saveQuotesBulk(quotes: Partial<DnseQuote>[]): Promise<number> {
+    const valid = quotes.filter((data) => !!data.symbol);
+    const previous = await this.getPreviousQuotes(
+      valid.map((data) => data.symbol!),
+    );
+
+    const writes = valid
+      .map((data) => this.prepareQuoteWrite(data, previous.get(data.symbol!)))
+      .filter((write): write is QuoteWrite => !!write);
+    if (writes.length === 0) return 0;
+
+    const dnseOps = writes
+      .filter((w) => Object.keys(w.dnseSet).length)
+      .map((w) => ({
+        updateOne: {
+          filter: { symbol: w.symbol },
+          update: { $set: w.dnseSet },
+          upsert: true,
+        },
+      }));
+    const mainOps = writes
+      .filter((w) => Object.keys(w.mainSet).length)
+      .map((w) => ({
+        updateOne: {
+          filter: { StockCode: w.StockCode },
+          update: { $set: w.mainSet },
+          upsert: true,
+        },
+      }));
+
+    const ops: Promise<any>[] = [];
+    if (dnseOps.length)
+      ops.push(this.dnseQuoteModel.bulkWrite(dnseOps, { ordered: false }));
+    if (mainOps.length)
+      ops.push(this.mainQuoteModel.bulkWrite(mainOps, { ordered: false }));
+
+    await Promise.all(ops);
+    await this.saveChangeLogs(
+      writes
+        .map((w) => w.changeLog)
+        .filter((log): log is QuoteChangeLog => !!log),
+    );
+
+    await this.commitQuoteWrites(writes);
+
+    return writes.length;
+  }
+
+  /**
+   * Last known quote of each symbol, to diff the messages against.
+   * Symbols the cache does not return (evicted, expired, or the store is
+   * down) are read from DnseQuote, so a cache miss never overwrites a
+   * stored quote with the nulls of a partial message.
+   */
+  private async getPreviousQuotes(
+    symbols: string[],
+  ): Promise<Map<string, Partial<DnseQuote>>> {
+    const { quotes, failed } = await this.quoteCacheService.lookup(symbols);
+    if (failed)
+      this.logger.warn(
+        `Quote cache unavailable, diffing ${symbols.length} quotes against Mongo`,
+      );
+
+    const misses = [...new Set(symbols)].filter((s) => !quotes.has(s));
+    if (!misses.length) return quotes;
+
+    const stored = await this.dnseQuoteModel
+      .find({ symbol: { $in: misses } })
+      .select({ _id: 0, createdAt: 0, updatedAt: 0 })
+      .lean<Partial<DnseQuote>[]>();
+    for (const quote of stored)
+      if (quote.symbol) quotes.set(quote.symbol, quote);
+
+    return quotes;
+  }
+
+  /**
+   * Diff a message against the last known quote of its symbol.
+   * Only changed fields are written; a message whose only change is its
+   * tradingTime carries nothing new and is skipped.
+   * MainQuote is diffed against what this instance last wrote, so computed
+   * fields are written when they change and the first write of a symbol
+   * after a start writes every mapped field (backfills new fields).
+   * A symbol seen for the first time writes only the fields the message
+   * carries and makes no change log entry (there is nothing to compare with).
+   */
+  private prepareQuoteWrite(
+    data: Partial<DnseQuote>,
+    cached: Partial<DnseQuote> | undefined,
+  ): QuoteWrite | null {
+    const symbol = data.symbol!;
+
+    const changes = diffFields<DnseQuote>(cached, data);
+    const valueChanges = changes.filter((c) => c.field !== 'tradingTime');
+
+    const merged = { ...cached, ...data };
+    const mainQuote = this.mapQuoteToInternalFormat(merged);
+    const StockCode = mainQuote.StockCode;
+    if (!StockCode) throw new Error('StockCode missing in mainQuote mapping');
+
+    const mainChanges = diffFields<MainQuote>(
+      this.writtenMainQuotes.get(symbol),
+      mainQuote,
     );
+    if (
+      cached &&
+      valueChanges.length === 0 &&
+      mainChanges.every((c) => c.field === 'TradingDate')
+    )
+      return null;
+
+    return {
+      symbol,
+      StockCode,
+      merged,
+      mainQuote,
+      dnseSet: cached ? toSetUpdate(changes) : data,
+      mainSet: toSetUpdate(mainChanges),
+      changeLog:
+        cached && valueChanges.length
+          ? {
+              StockCode,
+              Time: data.tradingTime ? new Date(data.tradingTime) : new Date(),
+              Changes: valueChanges.map((c) => ({
+                Field: c.field,
+                Old: c.oldValue,
+                New: c.newValue,
+              })),
+            }
+          : null,
+    };
+  }
+
+  /** After a successful write: refresh the cache and notify streams. */
+  private async commitQuoteWrites(writes: QuoteWrite[]) {
+    // Cập nhật lại cache DnseQuote
+    await this.quoteCacheService.setMany(
+      writes.map((write) => [write.symbol, write.merged]),
+    );
+
+    // Đẩy quote mới cho các client đang stream
+    for (const write of writes) {
+      this.writtenMainQuotes.set(write.symbol, write.mainQuote);
+      if (Object.keys(write.mainSet).length)
+        this.quoteStreamService.publish(write.mainQuote);
+    }
+  }
+
+  private async saveChangeLogs(entries: QuoteChangeLog[]) {
+    try {
+      await this.quoteChangeLogRepo.insertMany(entries);
+    } catch (err) {
+      this.logger.error('Failed to save quote change log', err);
+    }
+  }
+
+  async getChangeLog(query: {
+    code: string;
+    from?: Date;
+    to?: Date;
+    field?: string;
+    limit?: number;
+  }) {
+    const now = Date.now();
+    const from = query.from ?? getVnDayStart(now);
+    const to = query.to ?? new Date(now);
+
+    const items = await this.quoteChangeLogRepo.getByStockCode({
+      code: query.code,
+      from,
+      to,
+      field: query.field,
+      limit: query.limit ?? 1000,
+    });
+
+    return {
+      StockCode: query.code,
+      From: from,
+      To: to,
+      TotalItems: items.length,
+      Data: items,
+    };
   }
 
   async getByStockCode(code: string) {
-    const cached = this.quoteCacheService.get(code);
-    if (cached) return this.mapQuoteToInternalFormat(cached);
+    const cached = await this.quoteCacheService.get(code);
 
     // fallback nếu chưa có cache
-    return this.quoteRepo.getByStockCode(code);
+    const quote = cached
+      ? this.mapQuoteToInternalFormat(cached)
+      : await this.quoteRepo.getByStockCode(code);
+    if (!quote) return quote;
+
+    // Bổ sung giá mua / bán tốt nhất từ sổ lệnh
+    const bestBidAsk = await this.orderBookService.getBestBidAsk(code);
+    return { ...quote, ...bestBidAsk };
+  }
+
+  /**
+   * Quotes of many symbols in request order.
+   * Served from the cache first, the misses are read from MainQuote in one
+   * query; unknown symbols come back as { StockCode, NotFound: true }.
+   */
+  async getByStockCodes(codes: string[]) {
+    const unique = [...new Set(codes)];
+    const quotes = new Map<string, Partial<MainQuote>>();
+    const cached = await this.quoteCacheService.getMany(unique);
+    for (const [code, quote] of cached)
+      quotes.set(code, this.mapQuoteToInternalFormat(quote));
+    const misses = unique.filter((code) => !cached.has(code));
+
+    const [stored, bestBidAsks] = await Promise.all([
+      misses.length ? this.quoteRepo.getByStockCodes(misses) : [],
+      this.orderBookService.getBestBidAsks(unique),
+    ]);
+    for (const quote of stored)
+      if (quote.StockCode) quotes.set(quote.StockCode, quote);
+
+    return codes.map((code) => {
+      const quote = quotes.get(code);
+      return quote
+        ? { ...quote, ...bestBidAsks.get(code) }
+        : { StockCode: code, NotFound: true };
+    });
   }
 
   async getByMarketID(query: {
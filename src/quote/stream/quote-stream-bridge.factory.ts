@@ -0,0 +1,34 @@
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { LeaderElectionService } from 'src/leader/services/leader-election.service';
+import { QuoteStreamBridge } from './quote-stream-bridge';
+import { RedisQuoteStreamBridge } from './redis-quote-stream.bridge';
+
+/**
+ * QUOTE_STREAM_BRIDGE=none (default): no bridge, only the ingest leader
+ * serves the quote streams.
+ * QUOTE_STREAM_BRIDGE=redis: every replica streams through REDIS_URL.
+ */
+export function createQuoteStreamBridge(
+  configService: ConfigService,
+  leaderService: LeaderElectionService,
+): QuoteStreamBridge | null {
+  const backend = configService.get<string>('QUOTE_STREAM_BRIDGE') ?? 'none';
+
+  if (backend === 'none') return null;
+
+  if (backend === 'redis') {
+    const url = configService.get<string>('REDIS_URL');
+    if (!url)
+      throw new Error('REDIS_URL is required for the redis stream bridge');
+
+    return new RedisQuoteStreamBridge(
+      new Redis(url),
+      new Redis(url),
+      configService.get<string>('REDIS_KEY_PREFIX') ?? 'stock',
+      leaderService.instanceId,
+    );
+  }
+
+  throw new Error(`Unknown QUOTE_STREAM_BRIDGE ${backend}`);
+}
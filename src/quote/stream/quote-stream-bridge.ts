@@ -0,0 +1,15 @@
+import type { QuoteStreamEvent } from '../services/quote-stream.service';
+
+export const QUOTE_STREAM_BRIDGE = 'QUOTE_STREAM_BRIDGE';
+
+/**
+ * Carries stream events between replicas: quotes are written and published
+ * by the ingest leader only, the bridge lets every replica stream them.
+ */
+export interface QuoteStreamBridge {
+  /** Send an event published on this instance to the other replicas. */
+  publish(event: QuoteStreamEvent): Promise<void>;
+
+  /** Receive the events published by the other replicas. */
+  subscribe(onEvent: (event: QuoteStreamEvent) => void): Promise<void>;
+}
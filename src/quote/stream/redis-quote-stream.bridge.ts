@@ -0,0 +1,64 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import Redis from 'ioredis';
+import type { QuoteStreamEvent } from '../services/quote-stream.service';
+import { QuoteStreamBridge } from './quote-stream-bridge';
+
+interface BridgeMessage {
+  origin: string;
+  event: QuoteStreamEvent;
+}
+
+/**
+ * Bridge over Redis pub/sub on `<prefix>:quote-stream`.
+ * A subscribed connection cannot send commands, hence the two clients.
+ * Messages carry the id of the instance that sent them, so an instance
+ * does not emit its own events twice.
+ */
+export class RedisQuoteStreamBridge
+  implements QuoteStreamBridge, OnModuleDestroy
+{
+  private readonly logger = new Logger(RedisQuoteStreamBridge.name);
+  private readonly channel: string;
+
+  constructor(
+    private readonly publisher: Redis,
+    private readonly subscriber: Redis,
+    prefix: string,
+    private readonly instanceId: string,
+  ) {
+    this.channel = `${prefix}:quote-stream`;
+  }
+
+  async onModuleDestroy() {
+    await Promise.all([this.publisher.quit(), this.subscriber.quit()]);
+  }
+
+  async publish(event: QuoteStreamEvent): Promise<void> {
+    const message: BridgeMessage = { origin: this.instanceId, event };
+    await this.publisher.publish(this.channel, JSON.stringify(message));
+  }
+
+  async subscribe(onEvent: (event: QuoteStreamEvent) => void): Promise<void> {
+    this.subscriber.on('message', (channel: string, json: string) => {
+      if (channel !== this.channel) return;
+
+      // anything may publish on the channel: a bad message must not throw
+      // out of the ioredis event emitter
+      let message: BridgeMessage;
+      try {
+        message = JSON.parse(json) as BridgeMessage;
+      } catch {
+        this.logger.warn(`Skipped a malformed message on ${channel}`);
+        return;
+      }
+      if (!message?.event?.quote) {
+        this.logger.warn(`Skipped a message without event on ${channel}`);
+        return;
+      }
+
+      if (message.origin !== this.instanceId) onEvent(message.event);
+    });
+
+    await this.subscriber.subscribe(this.channel);
+  }
+}
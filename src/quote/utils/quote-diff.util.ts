@@ -0,0 +1,57 @@
+export interface FieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+// bookkeeping fields never compared
+const IGNORED_FIELDS = new Set(['_id', 'createdAt', 'updatedAt']);
+
+/**
+ * Fields of `incoming` whose value differs from `cached`.
+ * Fields missing from `incoming` are kept as they are (partial update),
+ * dates are compared by time.
+ */
+export function diffFields<T extends object>(
+  cached: Partial<T> | undefined,
+  incoming: Partial<T>,
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const [field, newValue] of Object.entries(incoming)) {
+    if (newValue === undefined || IGNORED_FIELDS.has(field)) continue;
+
+    const oldValue: unknown = cached?.[field];
+    if (isSameValue(oldValue, newValue)) continue;
+
+    changes.push({ field, oldValue: oldValue ?? null, newValue });
+  }
+
+  return changes;
+}
+
+export function toSetUpdate(changes: FieldChange[]): Record<string, unknown> {
+  return Object.fromEntries(changes.map((c) => [c.field, c.newValue]));
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || a === undefined || b === null || b === undefined)
+    return (a ?? null) === (b ?? null);
+
+  const aTime = toTime(a);
+  const bTime = toTime(b);
+  if (aTime !== null && bTime !== null) return aTime === bTime;
+
+  return false;
+}
+
+function toTime(value: unknown): number | null {
+  if (value instanceof Date) return value.getTime();
+  // tradingTime comes from the feed as an ISO string
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    const time = new Date(value).getTime();
+    return isNaN(time) ? null : time;
+  }
+  return null;
+}
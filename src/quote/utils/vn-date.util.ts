@@ -0,0 +1,46 @@
+// Vietnam is UTC+7 all year round (no DST)
+export const VN_OFFSET_MS = 7 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Start of the Vietnamese calendar day containing `time`, as a UTC instant. */
+export function getVnDayStart(time: number = Date.now()): Date {
+  return new Date(
+    Math.floor((time + VN_OFFSET_MS) / DAY_MS) * DAY_MS - VN_OFFSET_MS,
+  );
+}
+
+/** Vietnamese calendar date of `time` as YYYY-MM-DD. */
+export function formatVnDate(time: number = Date.now()): string {
+  return new Date(time + VN_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Bounds of a YYYY-MM-DD trading day as MainQuote.TradingDate stores it:
+ * Vietnamese wall-clock time labelled UTC (shifted +7h when mapped), so
+ * the day runs from its UTC midnight to the next one.
+ */
+export function getTradingDateBounds(date: string): { start: Date; end: Date } {
+  const start = new Date(`${date}T00:00:00.000Z`);
+  return { start, end: new Date(start.getTime() + DAY_MS) };
+}
+
+export function isVnDateString(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+
+  // rejects days that Date would roll over, e.g. 2025-02-30
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/** Calendar days from `now` to a YYYY-MM-DD or YYYYMMDD date (VN time). */
+export function daysUntil(date?: string, now = Date.now()): number | null {
+  if (!date) return null;
+
+  const iso = /^\d{8}$/.test(date)
+    ? `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`
+    : date.slice(0, 10);
+  const target = new Date(`${iso}T00:00:00+07:00`).getTime();
+  if (isNaN(target)) return null;
+
+  return Math.round((target - getVnDayStart(now).getTime()) / DAY_MS);
+}
@@ -0,0 +1,27 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { ScreenerService } from '../services/screener.service';
+import { ScreenerQueryDto } from '../dto/screener-query.dto';
+
+@ApiTags('screener')
+@Controller()
+export class ScreenerController {
+  constructor(private readonly screenerService: ScreenerService) {}
+
+  /**
+   * GET /screener?q=ChangeRatio>3 AND TotalVal>1e10&sort=-ChangeRatio,StockCode
+   *   &fields=LastPrice,ChangeRatio&Market_ID=HOSE,HNX&SymbolType=ST&Page=1&PageSize=50
+   */
+  @Get('screener')
+  async screen(@Query() query: ScreenerQueryDto) {
+    return this.screenerService.screen({
+      expression: query.q,
+      sort: query.sort,
+      fields: query.fields,
+      marketIds: query.Market_ID ?? [],
+      symbolTypes: query.SymbolType ?? [],
+      Page: query.Page,
+      PageSize: query.PageSize,
+    });
+  }
+}
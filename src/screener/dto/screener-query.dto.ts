@@ -0,0 +1,70 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { toUpperCaseList } from 'src/common/utils/query-transform.util';
+import { MARKET } from 'src/quote/enums/market-code.enum';
+import { SYMBOL_TYPE } from 'src/quote/enums/symbol-type.enum';
+
+export class ScreenerQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Comparisons on MainQuote fields joined by AND / OR, strings in single quotes',
+    example: 'ChangeRatio>3 AND TotalVal>1e10',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  q?: string;
+
+  @ApiPropertyOptional({
+    description: 'Sort keys, `-` for descending',
+    example: '-ChangeRatio,StockCode',
+  })
+  @IsOptional()
+  @IsString()
+  sort?: string;
+
+  @ApiPropertyOptional({
+    description: 'Fields to return, StockCode is always included',
+    example: 'LastPrice,ChangeRatio,TotalVal',
+  })
+  @IsOptional()
+  @IsString()
+  fields?: string;
+
+  @ApiPropertyOptional({ type: String, example: 'HOSE,HNX' })
+  @IsOptional()
+  @Transform(toUpperCaseList)
+  @IsArray()
+  @IsIn(Object.values(MARKET), { each: true })
+  Market_ID?: string[];
+
+  @ApiPropertyOptional({ type: String, example: 'ST,EF' })
+  @IsOptional()
+  @Transform(toUpperCaseList)
+  @IsArray()
+  @IsIn(Object.values(SYMBOL_TYPE), { each: true })
+  SymbolType?: string[];
+
+  @ApiPropertyOptional({ default: 1, minimum: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  Page: number = 1;
+
+  @ApiPropertyOptional({ default: 50, minimum: 1, maximum: 500 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  PageSize: number = 50;
+}
@@ -0,0 +1,35 @@
+import { FilterQuery, Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { MainQuote } from 'src/quote/schemas/main-quote.schema';
+
+@Injectable()
+export class ScreenerRepository {
+  constructor(
+    @InjectModel(MainQuote.name) private readonly model: Model<MainQuote>,
+  ) {}
+
+  async screen(query: {
+    filter: FilterQuery<MainQuote>;
+    sort: Record<string, 1 | -1>;
+    projection: Record<string, 0 | 1>;
+    skip: number;
+    limit: number;
+  }) {
+    const { filter, sort, projection, skip, limit } = query;
+
+    const [items, total] = await Promise.all([
+      this.model
+        .find(filter)
+        // StockCode last so paging is stable between equal sort keys
+        .sort({ ...sort, StockCode: sort.StockCode ?? 1 })
+        .skip(skip)
+        .limit(limit)
+        .select(projection)
+        .lean(),
+      this.model.countDocuments(filter),
+    ]);
+
+    return { items, total };
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  MainQuote,
+  MainQuoteSchema,
+} from 'src/quote/schemas/main-quote.schema';
+import { ScreenerService } from './services/screener.service';
+import { ScreenerRepository } from './repositories/screener.repository';
+import { ScreenerController } from './controllers/screener.controller';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: MainQuote.name, schema: MainQuoteSchema },
+    ]),
+  ],
+  providers: [ScreenerService, ScreenerRepository],
+  controllers: [ScreenerController],
+})
+export class ScreenerModule {}
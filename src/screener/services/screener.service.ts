@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+import { FilterQuery } from 'mongoose';
+import { MainQuote } from 'src/quote/schemas/main-quote.schema';
+import { ScreenerRepository } from '../repositories/screener.repository';
+import {
+  parseScreenerExpression,
+  parseScreenerFields,
+  parseScreenerSort,
+} from '../utils/screener-expression.util';
+
+@Injectable()
+export class ScreenerService {
+  constructor(private readonly screenerRepo: ScreenerRepository) {}
+
+  async screen(query: {
+    expression?: string;
+    sort?: string;
+    fields?: string;
+    marketIds: string[];
+    symbolTypes: string[];
+    Page: number;
+    PageSize: number;
+  }) {
+    const { Page, PageSize } = query;
+
+    const conditions: FilterQuery<MainQuote>[] = [];
+    if (query.marketIds.length)
+      conditions.push({ MarketID: { $in: query.marketIds } });
+    if (query.symbolTypes.length)
+      conditions.push({ SymbolType: { $in: query.symbolTypes } });
+
+    const expression = parseScreenerExpression(query.expression ?? '');
+    if (Object.keys(expression).length) conditions.push(expression);
+
+    const skip = (Page - 1) * PageSize;
+    const { items, total } = await this.screenerRepo.screen({
+      filter: conditions.length ? { $and: conditions } : {},
+      sort: parseScreenerSort(query.sort),
+      projection: parseScreenerFields(query.fields),
+      skip,
+      limit: PageSize,
+    });
+
+    return {
+      Page,
+      PageSize,
+      TotalItems: total,
+      TotalPages: Math.ceil(total / PageSize),
+      Data: items,
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  parseScreenerExpression,
+  parseScreenerFields,
+  parseScreenerSort,
+} from './screener-expression.util';
+
+describe('Screener expression parser', () => {
+  // ============================
+  // 1. So sánh và AND / OR
+  // ============================
+  it('should translate comparisons joined by AND / OR', () => {
+    expect(parseScreenerExpression('ChangeRatio>3 AND TotalVal>1e10')).toEqual({
+      $and: [{ ChangeRatio: { $gt: 3 } }, { TotalVal: { $gt: 1e10 } }],
+    });
+
+    expect(
+      parseScreenerExpression(
+        "MarketID='HNX' or (Change<=-0.5 and LastPrice!=0)",
+      ),
+    ).toEqual({
+      $or: [
+        { MarketID: { $eq: 'HNX' } },
+        { $and: [{ Change: { $lte: -0.5 } }, { LastPrice: { $ne: 0 } }] },
+      ],
+    });
+  });
+
+  // ============================
+  // 2. AND ưu tiên hơn OR
+  // ============================
+  it('should bind AND tighter than OR', () => {
+    expect(
+      parseScreenerExpression('TotalVol>1 OR TotalVol<0 AND Change=0'),
+    ).toEqual({
+      $or: [
+        { TotalVol: { $gt: 1 } },
+        { $and: [{ TotalVol: { $lt: 0 } }, { Change: { $eq: 0 } }] },
+      ],
+    });
+  });
+
+  // ============================
+  // 3. Từ chối field / toán tử không hợp lệ
+  // ============================
+  it.each([
+    'Password>1',
+    '__proto__>1',
+    'ChangeRatio>',
+    "ChangeRatio>'3'",
+    'MarketID=3',
+    'ChangeRatio>3 AND',
+    '(ChangeRatio>3',
+    'ChangeRatio>3)',
+    'ChangeRatio $gt 3',
+    'ChangeRatio>3; db.drop()',
+  ])('should reject %s', (expression) => {
+    expect(() => parseScreenerExpression(expression)).toThrow(
+      BadRequestException,
+    );
+  });
+
+  // ============================
+  // 4. Sắp xếp và chọn field
+  // ============================
+  it('should parse sort keys and field projection', () => {
+    expect(parseScreenerSort('-ChangeRatio,TotalVal')).toEqual({
+      ChangeRatio: -1,
+      TotalVal: 1,
+    });
+    expect(parseScreenerFields('LastPrice')).toEqual({
+      _id: 0,
+      StockCode: 1,
+      LastPrice: 1,
+    });
+    expect(() => parseScreenerSort('-password')).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,210 @@
+import { BadRequestException } from '@nestjs/common';
+import { FilterQuery } from 'mongoose';
+import { MainQuote } from 'src/quote/schemas/main-quote.schema';
+
+/**
+ * MainQuote fields a screen may filter, sort or project on.
+ * Anything else is rejected, so user input never reaches Mongo as a key.
+ */
+export const screenerFields: Partial<
+  Record<keyof MainQuote, 'number' | 'string' | 'date'>
+> = {
+  StockCode: 'string',
+  MarketID: 'string',
+  SymbolType: 'string',
+  TradingDate: 'date',
+  KLCPLH: 'number',
+  KLCPNY: 'number',
+  PriorClosePrice: 'number',
+  BasicPrice: 'number',
+  CeilingPrice: 'number',
+  FloorPrice: 'number',
+  OpenPrice: 'number',
+  HighestPrice: 'number',
+  LowestPrice: 'number',
+  LastPrice: 'number',
+  ClosePrice: 'number',
+  AvrPrice: 'number',
+  Change: 'number',
+  ChangeRatio: 'number',
+  TotalVol: 'number',
+  TotalVal: 'number',
+  MarketCapital: 'number',
+  TotalPutVol: 'number',
+  TotalPutVal: 'number',
+};
+
+export function getScreenerFieldType(field: string) {
+  return Object.hasOwn(screenerFields, field)
+    ? screenerFields[field as keyof MainQuote]
+    : undefined;
+}
+
+const operators: Record<string, string> = {
+  '>': '$gt',
+  '>=': '$gte',
+  '<': '$lt',
+  '<=': '$lte',
+  '=': '$eq',
+  '==': '$eq',
+  '!=': '$ne',
+};
+
+type Token =
+  | { type: 'field'; value: string; pos: number }
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'op'; value: string; pos: number }
+  | { type: 'and' | 'or' | '(' | ')'; pos: number };
+
+const tokenPattern =
+  /\s*(?:(\()|(\))|(>=|<=|!=|==|>|<|=)|(-?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)|'([^']*)'|([A-Za-z_][A-Za-z0-9_]*))/iy;
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  tokenPattern.lastIndex = 0;
+
+  while (tokenPattern.lastIndex < input.length) {
+    const pos = tokenPattern.lastIndex;
+    const match = tokenPattern.exec(input);
+    if (!match) {
+      if (!input.slice(pos).trim()) break;
+      throw invalid(`unexpected character at ${pos}`);
+    }
+
+    const [, open, close, op, num, str, word] = match;
+    if (open) tokens.push({ type: '(', pos });
+    else if (close) tokens.push({ type: ')', pos });
+    else if (op) tokens.push({ type: 'op', value: op, pos });
+    else if (num !== undefined)
+      tokens.push({ type: 'number', value: Number(num), pos });
+    else if (str !== undefined)
+      tokens.push({ type: 'string', value: str, pos });
+    else if (/^and$/i.test(word)) tokens.push({ type: 'and', pos });
+    else if (/^or$/i.test(word)) tokens.push({ type: 'or', pos });
+    else tokens.push({ type: 'field', value: word, pos });
+  }
+
+  return tokens;
+}
+
+function invalid(reason: string) {
+  return new BadRequestException(`Invalid screener expression: ${reason}`);
+}
+
+/**
+ * Translate a screen such as `ChangeRatio>3 AND TotalVal>1e10` into a Mongo
+ * filter on MainQuote.
+ *
+ * expression := term (OR term)*
+ * term       := factor (AND factor)*
+ * factor     := '(' expression ')' | Field operator value
+ *
+ * Values are numbers (1e10, -2.5) or single-quoted strings ('HOSE').
+ */
+export function parseScreenerExpression(input: string): FilterQuery<MainQuote> {
+  const tokens = tokenize(input);
+  if (!tokens.length) return {};
+
+  let i = 0;
+  const peek = () => tokens[i];
+  const expect = (type: Token['type']) => {
+    const token = tokens[i];
+    if (token?.type !== type)
+      throw invalid(
+        token ? `unexpected token at ${token.pos}` : `missing ${type}`,
+      );
+    i++;
+    return token;
+  };
+
+  const parseComparison = (): FilterQuery<MainQuote> => {
+    const field = expect('field') as Extract<Token, { type: 'field' }>;
+    const fieldType = getScreenerFieldType(field.value);
+    if (!fieldType) throw invalid(`unknown field ${field.value}`);
+
+    const op = expect('op') as Extract<Token, { type: 'op' }>;
+
+    const value = tokens[i++];
+    if (value?.type !== 'number' && value?.type !== 'string')
+      throw invalid(`missing value for ${field.value}`);
+    if (fieldType === 'number' && value.type !== 'number')
+      throw invalid(`${field.value} must be compared to a number`);
+    if (fieldType !== 'number' && value.type !== 'string')
+      throw invalid(`${field.value} must be compared to a quoted string`);
+
+    const typed = fieldType === 'date' ? new Date(value.value) : value.value;
+    if (typed instanceof Date && isNaN(typed.getTime()))
+      throw invalid(`${field.value} must be compared to a date`);
+
+    return { [field.value]: { [operators[op.value]]: typed } };
+  };
+
+  const parseFactor = (): FilterQuery<MainQuote> => {
+    if (peek()?.type !== '(') return parseComparison();
+
+    i++;
+    const inner = parseExpression();
+    expect(')');
+    return inner;
+  };
+
+  const parseTerm = (): FilterQuery<MainQuote> => {
+    const factors = [parseFactor()];
+    while (peek()?.type === 'and') {
+      i++;
+      factors.push(parseFactor());
+    }
+    return factors.length > 1 ? { $and: factors } : factors[0];
+  };
+
+  const parseExpression = (): FilterQuery<MainQuote> => {
+    const terms = [parseTerm()];
+    while (peek()?.type === 'or') {
+      i++;
+      terms.push(parseTerm());
+    }
+    return terms.length > 1 ? { $or: terms } : terms[0];
+  };
+
+  const filter = parseExpression();
+  if (i < tokens.length) throw invalid(`unexpected token at ${tokens[i].pos}`);
+
+  return filter;
+}
+
+/** `-ChangeRatio,TotalVal` → { ChangeRatio: -1, TotalVal: 1 } */
+export function parseScreenerSort(input?: string): Record<string, 1 | -1> {
+  const sort: Record<string, 1 | -1> = {};
+
+  for (const key of splitList(input)) {
+    const field = key.replace(/^[-+]/, '');
+    if (!getScreenerFieldType(field))
+      throw new BadRequestException(`Unknown sort field ${field}`);
+    sort[field] = key.startsWith('-') ? -1 : 1;
+  }
+
+  return sort;
+}
+
+/** `LastPrice,ChangeRatio` → projection, StockCode is always returned. */
+export function parseScreenerFields(input?: string): Record<string, 0 | 1> {
+  const fields = splitList(input);
+  if (!fields.length) return { _id: 0, createdAt: 0, updatedAt: 0 };
+
+  const projection: Record<string, 0 | 1> = { _id: 0, StockCode: 1 };
+  for (const field of fields) {
+    if (!getScreenerFieldType(field))
+      throw new BadRequestException(`Unknown field ${field}`);
+    projection[field] = 1;
+  }
+
+  return projection;
+}
+
+export function splitList(input?: string): string[] {
+  return (input ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,19 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { SymbolService } from '../services/symbol.service';
+import { SymbolSearchQueryDto } from '../dto/symbol-search-query.dto';
+
+@ApiTags('symbols')
+@Controller('symbols')
+export class SymbolController {
+  constructor(private readonly symbolService: SymbolService) {}
+
+  /**
+   * GET /symbols/search?q=hoa phat&limit=10
+   */
+  @Get('search')
+  search(@Query() query: SymbolSearchQueryDto) {
+    const data = this.symbolService.search(query.q, query.limit);
+    return { TotalItems: data.length, Data: data };
+  }
+}
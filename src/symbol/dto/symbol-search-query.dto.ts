@@ -0,0 +1,28 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class SymbolSearchQueryDto {
+  @ApiProperty({
+    description: 'Code or name, with or without diacritics',
+    example: 'hoa phat',
+  })
+  @MaxLength(100)
+  @IsString()
+  @IsNotEmpty({ message: 'q is required' })
+  q: string;
+
+  @ApiPropertyOptional({ default: 10, minimum: 1, maximum: 100 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit: number = 10;
+}
@@ -0,0 +1,26 @@
+import { Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { SymbolInfo } from '../schemas/symbol-info.schema';
+
+@Injectable()
+export class SymbolInfoRepository {
+  constructor(
+    @InjectModel(SymbolInfo.name) private readonly model: Model<SymbolInfo>,
+  ) {}
+
+  async upsert(symbol: SymbolInfo) {
+    return this.model.updateOne(
+      { StockCode: symbol.StockCode },
+      { $set: symbol },
+      { upsert: true },
+    );
+  }
+
+  async getAll() {
+    return this.model
+      .find()
+      .select({ _id: 0, createdAt: 0, updatedAt: 0 })
+      .lean();
+  }
+}
@@ -0,0 +1,21 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type SymbolInfoDocument = HydratedDocument<SymbolInfo>;
+
+/** Symbol master: static reference fields of a symbol, kept from the feed. */
+@Schema({ timestamps: true, versionKey: false })
+export class SymbolInfo {
+  @Prop({ required: true, unique: true }) StockCode: string;
+  @Prop() SymbolName?: string;
+  @Prop() SymbolEnglishName?: string;
+  @Prop() ISIN?: string;
+  @Prop() MarketID?: string;
+  @Prop() SymbolType?: string;
+  @Prop() SecurityGroupId?: string;
+  @Prop() Issuer?: string;
+  @Prop() ListingDate?: string;
+  @Prop() ListedShares?: number;
+}
+
+export const SymbolInfoSchema = SchemaFactory.createForClass(SymbolInfo);
@@ -0,0 +1,92 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SymbolService } from './symbol.service';
+import { SymbolInfoRepository } from '../repositories/symbol-info.repository';
+
+describe('SymbolService Unit Tests', () => {
+  let service: SymbolService;
+
+  const mockRepo = {
+    upsert: jest.fn().mockResolvedValue(undefined),
+    getAll: jest.fn().mockResolvedValue([
+      {
+        StockCode: 'HPG',
+        SymbolName: 'Công ty Cổ phần Tập đoàn Hòa Phát',
+        SymbolEnglishName: 'Hoa Phat Group Joint Stock Company',
+      },
+      {
+        StockCode: 'VNM',
+        SymbolName: 'Công ty Cổ phần Sữa Việt Nam',
+        SymbolEnglishName:
+          'Viet Nam Dairy Products Joint Stock Company (Vinamilk)',
+      },
+      { StockCode: 'DGW', SymbolName: 'Công ty Cổ phần Thế Giới Số' },
+      { StockCode: 'DHG', SymbolName: 'Công ty Cổ phần Dược Hậu Giang' },
+    ]),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SymbolService,
+        { provide: SymbolInfoRepository, useValue: mockRepo },
+      ],
+    }).compile();
+
+    service = module.get<SymbolService>(SymbolService);
+    await service.onModuleInit();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const codes = (q: string) =>
+    service.search(q, 10).map((symbol) => symbol.StockCode);
+
+  // ============================
+  // 1. Tìm theo tên có / không dấu
+  // ============================
+  it('should match Vietnamese names with or without diacritics', () => {
+    expect(codes('hoa phat')).toEqual(['HPG']);
+    expect(codes('Hòa Phát')).toEqual(['HPG']);
+    expect(codes('duoc hau giang')).toEqual(['DHG']);
+    expect(codes('vinamilk')).toEqual(['VNM']);
+  });
+
+  // ============================
+  // 2. Mã khớp chính xác xếp trước
+  // ============================
+  it('should rank code matches before name matches', () => {
+    // HPG (tập "đoàn") và VNM ("dairy") khớp theo tên
+    expect(codes('d')).toEqual(['DGW', 'DHG', 'HPG', 'VNM']);
+    expect(codes('dhg')).toEqual(['DHG']);
+  });
+
+  // ============================
+  // 3. Chỉ ghi khi dữ liệu tĩnh thay đổi
+  // ============================
+  it('should write the symbol only when a static field changes', async () => {
+    await service.onQuote({ symbol: 'HPG', matchPrice: 27 });
+    expect(mockRepo.upsert).not.toHaveBeenCalled();
+
+    await service.onQuote({ symbol: 'HPG', listedShares: 6396250200 });
+    expect(mockRepo.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ StockCode: 'HPG', ListedShares: 6396250200 }),
+    );
+  });
+
+  // ============================
+  // 4. Nạp lại định kỳ: replica không nhận feed vẫn thấy mã mới
+  // ============================
+  it('should pick up symbols written by the leader on reload', async () => {
+    expect(service.search('FPT', 10)).toEqual([]);
+
+    mockRepo.getAll.mockResolvedValueOnce([
+      { StockCode: 'FPT', SymbolName: 'Công ty Cổ phần FPT' },
+    ]);
+    await service.reload();
+
+    expect(service.search('fpt', 10).map((s) => s.StockCode)).toEqual(['FPT']);
+    expect(service.search('HPG', 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DnseQuote } from 'src/quote/schemas/dnse-quote.schema';
+import { marketMap } from 'src/quote/map/quote.map';
+import { diffFields } from 'src/quote/utils/quote-diff.util';
+import { SymbolInfo } from '../schemas/symbol-info.schema';
+import { SymbolInfoRepository } from '../repositories/symbol-info.repository';
+import { normalizeSearchText } from '../utils/search-text.util';
+
+interface SearchEntry {
+  symbol: SymbolInfo;
+  code: string;
+  // normalized names, Vietnamese then English
+  names: string[];
+}
+
+/**
+ * Symbol master maintained from the feed.
+ * The static fields arrive on every message: the collection is only written
+ * when one of them changes. Search runs on the in-memory copy, reloaded
+ * hourly: only the ingest leader sees the feed, the other replicas pick up
+ * new or renamed symbols from Mongo.
+ */
+@Injectable()
+export class SymbolService implements OnModuleInit {
+  private readonly logger = new Logger(SymbolService.name);
+
+  private symbols = new Map<string, SearchEntry>();
+
+  constructor(private readonly symbolRepo: SymbolInfoRepository) {}
+
+  async onModuleInit() {
+    await this.reload();
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async reload() {
+    try {
+      const items = await this.symbolRepo.getAll();
+      const symbols = new Map<string, SearchEntry>();
+      for (const item of items)
+        symbols.set(item.StockCode, toSearchEntry(item));
+      this.symbols = symbols;
+      this.logger.log(`Loaded ${items.length} symbols`);
+    } catch (err) {
+      this.logger.error('Failed to load symbols', err);
+    }
+  }
+
+  async onQuote(data: Partial<DnseQuote>): Promise<void> {
+    if (!data.symbol) return;
+
+    const previous = this.symbols.get(data.symbol)?.symbol;
+    const symbol = mapSymbolInfo(data.symbol, data, previous);
+    if (previous && !diffFields(previous, symbol).length) return;
+
+    this.index(symbol);
+
+    try {
+      await this.symbolRepo.upsert(symbol);
+    } catch (err) {
+      this.logger.error(`Failed to save symbol ${symbol.StockCode}`, err);
+    }
+  }
+
+  /**
+   * Symbols whose code or name matches the query, with or without
+   * diacritics. Ranked: exact code, code prefix, name word prefix, name
+   * contains.
+   */
+  search(query: string, limit: number): SymbolInfo[] {
+    const q = normalizeSearchText(query);
+    if (!q) return [];
+
+    const ranked: [number, SearchEntry][] = [];
+    for (const entry of this.symbols.values()) {
+      const rank = rankMatch(entry, q);
+      if (rank !== null) ranked.push([rank, entry]);
+    }
+
+    return ranked
+      .sort(([a, x], [b, y]) => a - b || x.code.localeCompare(y.code))
+      .slice(0, limit)
+      .map(([, entry]) => entry.symbol);
+  }
+
+  private index(symbol: SymbolInfo) {
+    this.symbols.set(symbol.StockCode, toSearchEntry(symbol));
+  }
+}
+
+function toSearchEntry(symbol: SymbolInfo): SearchEntry {
+  return {
+    symbol,
+    code: symbol.StockCode.toLowerCase(),
+    names: [symbol.SymbolName, symbol.SymbolEnglishName]
+      .filter((name): name is string => !!name)
+      .map(normalizeSearchText),
+  };
+}
+
+function rankMatch(entry: SearchEntry, q: string): number | null {
+  if (entry.code === q) return 0;
+  if (entry.code.startsWith(q)) return 1;
+  if (entry.names.some((name) => ` ${name}`.includes(` ${q}`))) return 2;
+  if (entry.names.some((name) => name.includes(q))) return 3;
+  return null;
+}
+
+function mapSymbolInfo(
+  code: string,
+  data: Partial<DnseQuote>,
+  previous?: SymbolInfo,
+): SymbolInfo {
+  const mapped: Partial<SymbolInfo> = {
+    SymbolName: data.symbolName,
+    SymbolEnglishName: data.symbolEnglishName,
+    ISIN: data.isin,
+    MarketID: data.marketId
+      ? (marketMap[data.marketId] ?? data.marketId)
+      : undefined,
+    SymbolType: data.symbolType,
+    SecurityGroupId: data.securityGroupId,
+    Issuer: data.issuer,
+    ListingDate: data.listingDate,
+    ListedShares: data.listedShares,
+  };
+
+  // keep fields the message did not carry
+  return {
+    ...previous,
+    ...Object.fromEntries(
+      Object.entries(mapped).filter(([, value]) => value !== undefined),
+    ),
+    StockCode: code,
+  };
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SymbolInfo, SymbolInfoSchema } from './schemas/symbol-info.schema';
+import { SymbolService } from './services/symbol.service';
+import { SymbolInfoRepository } from './repositories/symbol-info.repository';
+import { SymbolController } from './controllers/symbol.controller';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: SymbolInfo.name, schema: SymbolInfoSchema },
+    ]),
+  ],
+  providers: [SymbolService, SymbolInfoRepository],
+  exports: [SymbolService],
+  controllers: [SymbolController],
+})
+export class SymbolModule {}
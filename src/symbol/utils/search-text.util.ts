@@ -0,0 +1,14 @@
+/**
+ * Lower-case text without Vietnamese diacritics, so that "Hòa Phát",
+ * "hoa phat" and "HOA PHAT" compare equal.
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,19 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { WarrantService } from '../services/warrant.service';
+import { WarrantsQueryDto } from '../dto/warrants-query.dto';
+
+@ApiTags('warrants')
+@Controller()
+export class WarrantController {
+  constructor(private readonly warrantService: WarrantService) {}
+
+  /**
+   * GET /warrants?Underlying=HPG
+   * Every covered warrant when Underlying is omitted.
+   */
+  @Get('warrants')
+  async getWarrants(@Query() { Underlying }: WarrantsQueryDto) {
+    return this.warrantService.getWarrants(Underlying);
+  }
+}
@@ -0,0 +1,17 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsOptional, Matches } from 'class-validator';
+import { toUpperCase } from 'src/common/utils/query-transform.util';
+
+export class WarrantsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Underlying stock, every covered warrant by default',
+    example: 'HPG',
+  })
+  @IsOptional()
+  @Transform(toUpperCase)
+  @Matches(/^[A-Z0-9]{3}$/, {
+    message: 'Underlying must be a 3-character code',
+  })
+  Underlying?: string;
+}
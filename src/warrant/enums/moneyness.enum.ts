@@ -0,0 +1,5 @@
+export enum MONEYNESS {
+  IN_THE_MONEY = 'ITM',
+  AT_THE_MONEY = 'ATM',
+  OUT_OF_THE_MONEY = 'OTM',
+}
@@ -0,0 +1,24 @@
+import { Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { DnseQuote } from 'src/quote/schemas/dnse-quote.schema';
+import { SYMBOL_TYPE } from 'src/quote/enums/symbol-type.enum';
+
+@Injectable()
+export class WarrantRepository {
+  constructor(
+    @InjectModel(DnseQuote.name) private readonly model: Model<DnseQuote>,
+  ) {}
+
+  /** Covered warrants, optionally only those on one underlying. */
+  async getWarrants(underlying?: string) {
+    return this.model
+      .find({
+        symbolType: SYMBOL_TYPE.COVERED_WARRANT,
+        ...(underlying && { symbol: { $regex: `^C${underlying}\\d{4}$` } }),
+      })
+      .sort({ symbol: 1 })
+      .select({ _id: 0, createdAt: 0, updatedAt: 0 })
+      .lean();
+  }
+}
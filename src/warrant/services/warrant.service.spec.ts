@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WarrantService } from './warrant.service';
+import { WarrantRepository } from '../repositories/warrant.repository';
+import { QuoteService } from 'src/quote/services/quote.service';
+import { MONEYNESS } from '../enums/moneyness.enum';
+
+describe('WarrantService Unit Tests', () => {
+  let service: WarrantService;
+
+  const mockRepo = { getWarrants: jest.fn() };
+  const mockQuoteService = {
+    getByStockCodes: jest.fn(
+      (codes: string[]): Promise<Record<string, unknown>[]> =>
+        Promise.resolve(
+          codes.map((code) => ({ StockCode: code, LastPrice: 28 })),
+        ),
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WarrantService,
+        { provide: WarrantRepository, useValue: mockRepo },
+        { provide: QuoteService, useValue: mockQuoteService },
+      ],
+    }).compile();
+
+    service = module.get<WarrantService>(WarrantService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // ============================
+  // 1. Chứng quyền mua trong tiền
+  // ============================
+  it('should compute intrinsic value, break-even and premium of a call', async () => {
+    mockRepo.getWarrants.mockResolvedValue([
+      {
+        symbol: 'CHPG2401',
+        putOrCall: 'C',
+        strikePrice: 25,
+        contractMultiplier: 4,
+        matchPrice: 1,
+      },
+    ]);
+
+    const result = await service.getWarrants('HPG');
+    const [warrant] = result.Data;
+
+    expect(mockQuoteService.getByStockCodes).toHaveBeenCalledWith(['HPG']);
+    expect(warrant.Underlying).toBe('HPG');
+    expect(warrant.UnderlyingPrice).toBe(28);
+    expect(warrant.IntrinsicValue).toBe(0.75);
+    expect(warrant.BreakEven).toBe(29);
+    expect(warrant.Premium).toBe(3.57);
+    expect(warrant.Moneyness).toBe(MONEYNESS.IN_THE_MONEY);
+  });
+
+  // ============================
+  // 2. Không có giá tài sản cơ sở
+  // ============================
+  it('should leave underlying-based metrics empty without a price', async () => {
+    mockQuoteService.getByStockCodes.mockResolvedValueOnce([
+      { StockCode: 'MWG', NotFound: true },
+    ]);
+    mockRepo.getWarrants.mockResolvedValue([
+      {
+        symbol: 'CMWG2402',
+        putOrCall: 'C',
+        strikePrice: 50,
+        contractMultiplier: 5,
+        referencePrice: 2,
+        maturityDate: '20250303',
+      },
+    ]);
+
+    const [warrant] = (await service.getWarrants()).Data;
+
+    expect(warrant.BreakEven).toBe(60);
+    expect(warrant.IntrinsicValue).toBeNull();
+    expect(warrant.Moneyness).toBeNull();
+  });
+
+  // ============================
+  // 3. Một truy vấn cho mọi tài sản cơ sở
+  // ============================
+  it('should fetch the distinct underlyings in one batch', async () => {
+    mockRepo.getWarrants.mockResolvedValue([
+      { symbol: 'CHPG2401', putOrCall: 'C', strikePrice: 25 },
+      { symbol: 'CHPG2402', putOrCall: 'C', strikePrice: 30 },
+      { symbol: 'CFPT2401', putOrCall: 'C', strikePrice: 100 },
+    ]);
+
+    const { Data } = await service.getWarrants();
+
+    expect(mockQuoteService.getByStockCodes).toHaveBeenCalledTimes(1);
+    expect(mockQuoteService.getByStockCodes).toHaveBeenCalledWith([
+      'HPG',
+      'FPT',
+    ]);
+    expect(Data.map((warrant) => warrant.UnderlyingPrice)).toEqual([
+      28, 28, 28,
+    ]);
+  });
+});
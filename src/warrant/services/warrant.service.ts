@@ -0,0 +1,79 @@
+import { Injectable } from '@nestjs/common';
+import { QuoteService } from 'src/quote/services/quote.service';
+import { daysUntil } from 'src/quote/utils/vn-date.util';
+import { WarrantRepository } from '../repositories/warrant.repository';
+import {
+  computeWarrantMetrics,
+  isPutWarrant,
+  resolveUnderlyingSymbol,
+} from '../utils/warrant.util';
+
+@Injectable()
+export class WarrantService {
+  constructor(
+    private readonly warrantRepo: WarrantRepository,
+    private readonly quoteService: QuoteService,
+  ) {}
+
+  /**
+   * Covered warrants joined with the live price of their underlying
+   * (cache first, then MainQuote).
+   */
+  async getWarrants(underlying?: string) {
+    const warrants = await this.warrantRepo.getWarrants(underlying);
+
+    // every underlying in one batch (cache, then one MainQuote query)
+    const codes = new Set<string>();
+    for (const warrant of warrants) {
+      const code = warrant.symbol && resolveUnderlyingSymbol(warrant.symbol);
+      if (code) codes.add(code);
+    }
+
+    const underlyingPrices = new Map<string, number | null>();
+    if (codes.size)
+      for (const quote of await this.quoteService.getByStockCodes([...codes]))
+        if (quote.StockCode && !('NotFound' in quote))
+          underlyingPrices.set(
+            quote.StockCode,
+            quote.LastPrice || quote.BasicPrice || null,
+          );
+
+    const now = Date.now();
+    const data = warrants.map((warrant) => {
+      const code = warrant.symbol && resolveUnderlyingSymbol(warrant.symbol);
+      const underlyingPrice = code
+        ? (underlyingPrices.get(code) ?? null)
+        : null;
+      const price = warrant.matchPrice || warrant.referencePrice;
+
+      return {
+        StockCode: warrant.symbol,
+        Underlying: code,
+        Issuer: warrant.issuer,
+        PutOrCall: warrant.putOrCall,
+        ExerciseStyle: warrant.exerciseStyle,
+        StrikePrice: warrant.strikePrice,
+        ConversionRatio: warrant.contractMultiplier,
+        MaturityDate: warrant.maturityDate,
+        LastTradingDate: warrant.lastTradingDate,
+        DaysToMaturity: daysUntil(warrant.maturityDate, now),
+        LastPrice: price,
+        TotalVol: warrant.totalVolumeTraded,
+        UnderlyingPrice: underlyingPrice,
+        ...computeWarrantMetrics({
+          price,
+          underlyingPrice,
+          strikePrice: warrant.strikePrice,
+          conversionRatio: warrant.contractMultiplier,
+          isPut: isPutWarrant(warrant.putOrCall),
+        }),
+      };
+    });
+
+    return {
+      Underlying: underlying ?? null,
+      TotalItems: data.length,
+      Data: data,
+    };
+  }
+}
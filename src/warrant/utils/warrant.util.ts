@@ -0,0 +1,77 @@
+import { MONEYNESS } from '../enums/moneyness.enum';
+
+// KRX covered warrant codes: C + underlying + YY + sequence, e.g. CHPG2401
+const warrantCodePattern = /^C([A-Z0-9]{3})\d{4}$/;
+
+export function resolveUnderlyingSymbol(symbol: string): string | null {
+  return warrantCodePattern.exec(symbol)?.[1] ?? null;
+}
+
+export function isPutWarrant(putOrCall?: string): boolean {
+  return putOrCall?.toUpperCase().startsWith('P') ?? false;
+}
+
+export interface WarrantMetrics {
+  IntrinsicValue: number | null;
+  BreakEven: number | null;
+  Premium: number | null;
+  Moneyness: MONEYNESS | null;
+}
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+/**
+ * Analytics of a covered warrant. The conversion ratio is the number of
+ * warrants needed for one underlying share.
+ * - IntrinsicValue: exercise value of one warrant
+ * - BreakEven: underlying price at which buying the warrant now breaks even
+ * - Premium: % the underlying must move to reach the break-even price
+ */
+export function computeWarrantMetrics(input: {
+  price?: number;
+  underlyingPrice?: number | null;
+  strikePrice?: number;
+  conversionRatio?: number;
+  isPut: boolean;
+}): WarrantMetrics {
+  const { price, underlyingPrice, strikePrice, isPut } = input;
+  const ratio = input.conversionRatio || 1;
+
+  const breakEven =
+    price !== undefined && strikePrice !== undefined
+      ? round(isPut ? strikePrice - price * ratio : strikePrice + price * ratio)
+      : null;
+
+  if (!underlyingPrice || strikePrice === undefined)
+    return {
+      IntrinsicValue: null,
+      BreakEven: breakEven,
+      Premium: null,
+      Moneyness: null,
+    };
+
+  const spread = isPut
+    ? strikePrice - underlyingPrice
+    : underlyingPrice - strikePrice;
+
+  return {
+    IntrinsicValue: round(Math.max(0, spread) / ratio, 4),
+    BreakEven: breakEven,
+    Premium:
+      breakEven !== null
+        ? round(
+            ((isPut
+              ? underlyingPrice - breakEven
+              : breakEven - underlyingPrice) /
+              underlyingPrice) *
+              100,
+          )
+        : null,
+    Moneyness:
+      spread > 0
+        ? MONEYNESS.IN_THE_MONEY
+        : spread < 0
+          ? MONEYNESS.OUT_OF_THE_MONEY
+          : MONEYNESS.AT_THE_MONEY,
+  };
+}
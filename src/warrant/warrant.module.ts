@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  DnseQuote,
+  DnseQuoteSchema,
+} from 'src/quote/schemas/dnse-quote.schema';
+import { QuoteModule } from 'src/quote/quote.module';
+import { WarrantService } from './services/warrant.service';
+import { WarrantRepository } from './repositories/warrant.repository';
+import { WarrantController } from './controllers/warrant.controller';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: DnseQuote.name, schema: DnseQuoteSchema },
+    ]),
+    QuoteModule,
+  ],
+  providers: [WarrantService, WarrantRepository],
+  controllers: [WarrantController],
+})
+export class WarrantModule {}